@@ -0,0 +1,107 @@
+import { BenchmarkReport, BenchmarkSample, CompiledDimension, DimensionCost } from './types';
+
+/**
+ * A dimension pattern with its position in `patterns` or, for localized ones,
+ * in `patterns_by_lang[language]`. Localized patterns only run on messages in
+ * their language, as in routing.
+ */
+interface TimedPattern {
+  pattern: RegExp;
+  index: number;
+  language?: string;
+}
+
+export const BENCHMARK_SAMPLES = [
+  'Hello',
+  'What is machine learning?',
+  'Write a Python function to reverse a string',
+  'Debug this code: function foo() { return bar; }',
+  'Prove that the square root of 2 is irrational',
+  'Write a short story about a robot learning to feel emotions',
+  'Analyze these three investment strategies and compare their risks',
+  'Design a distributed microservices architecture for a high-frequency trading platform with Kubernetes orchestration, using CQRS patterns and event sourcing',
+  'Escribe una función en Python que invierta una cadena',
+  'Bitte übersetze diesen Satz ins Englische',
+];
+
+export class DimensionBenchmark {
+  private patterns: TimedPattern[][];
+
+  constructor(private dimensions: CompiledDimension[]) {
+    this.patterns = dimensions.map(dimension => [
+      ...dimension.patterns.map((pattern, index) => ({ pattern, index })),
+      ...Object.entries(dimension.patternsByLang)
+        .flatMap(([language, patterns]) => patterns.map((pattern, index) => ({ pattern, index, language }))),
+    ]);
+  }
+
+  run(texts: BenchmarkSample[], iterations: number): BenchmarkReport {
+    const patternNs = this.patterns.map(patterns => patterns.map(() => 0));
+
+    for (let i = 0; i < iterations; i++) {
+      texts.forEach(sample => this.timeText(sample, patternNs));
+    }
+
+    const samples = texts.length * iterations;
+    const dimensions = this.dimensions
+      .map((dimension, index) => this.summarize(dimension.name, this.patterns[index], patternNs[index], samples))
+      .sort((a, b) => b.avgMicros - a.avgMicros);
+    const totalMicros = dimensions.reduce((sum, dimension) => sum + dimension.avgMicros, 0);
+
+    return {
+      messages: texts.length,
+      iterations,
+      avgMicrosPerMessage: totalMicros,
+      dimensions: dimensions.map(dimension => ({
+        ...dimension,
+        share: totalMicros > 0 ? dimension.avgMicros / totalMicros : 0,
+      })),
+    };
+  }
+
+  static format(report: BenchmarkReport): string {
+    const lines = [
+      `Dimension match cost over ${report.messages} messages x ${report.iterations} iterations`,
+      `Average per message: ${report.avgMicrosPerMessage.toFixed(1)}µs`,
+      '',
+    ];
+
+    report.dimensions.forEach(dimension => {
+      const pattern = dimension.slowestPattern;
+      const location = pattern?.language ? `patterns_by_lang.${pattern.language}[${pattern.index}]` : `[${pattern?.index}]`;
+      const slowest = pattern ? `  slowest ${location} ${pattern.source} ${pattern.avgMicros.toFixed(2)}µs` : '';
+      lines.push(
+        `${dimension.name.padEnd(12)} ${dimension.avgMicros.toFixed(2).padStart(8)}µs ` +
+        `${(dimension.share * 100).toFixed(1).padStart(5)}%  ${dimension.patterns} patterns${slowest}`
+      );
+    });
+
+    return lines.join('\n');
+  }
+
+  private timeText({ text, language }: BenchmarkSample, patternNs: number[][]): void {
+    this.patterns.forEach((patterns, d) => {
+      patterns.forEach((timed, p) => {
+        if (timed.language && timed.language !== language) return;
+        const start = process.hrtime.bigint();
+        timed.pattern.test(text);
+        patternNs[d][p] += Number(process.hrtime.bigint() - start);
+      });
+    });
+  }
+
+  private summarize(name: string, patterns: TimedPattern[], nanos: number[], samples: number): Omit<DimensionCost, 'share'> {
+    const avgMicros = nanos.map(ns => ns / samples / 1000);
+    const slowestIndex = avgMicros.reduce((best, value, index) => value > avgMicros[best] ? index : best, 0);
+    const slowest = patterns[slowestIndex];
+
+    return {
+      name,
+      patterns: patterns.length,
+      avgMicros: avgMicros.reduce((sum, value) => sum + value, 0),
+      slowestPattern: slowest
+        ? { index: slowest.index, language: slowest.language, source: slowest.pattern.source, avgMicros: avgMicros[slowestIndex] }
+        : null,
+    };
+  }
+}
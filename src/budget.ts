@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BudgetConfig, BudgetConstraint, BudgetStats, LedgerBucket, Logger } from './types';
+import { BUDGET_PARAMS } from './constants';
+import { StructuredLogger } from './log';
+
+interface LedgerState {
+  days: Record<string, LedgerBucket>;
+  months: Record<string, LedgerBucket>;
+}
+
+/**
+ * Daily and monthly spend per channel and sender, persisted to `ledger.json`
+ * (kept in memory only when `ledgerDir` is null). Charges are written at most
+ * once per `SAVE_DEBOUNCE_MS`, off the routing path; `flush()` writes what is
+ * pending. Constraint reasons name the cap but never the sender, since they
+ * end up in decision logs.
+ */
+export class BudgetLedger {
+  private ledgerFile: string | null;
+  private state: LedgerState = { days: {}, months: {} };
+  private loaded = false;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private config: BudgetConfig,
+    private log: Logger = new StructuredLogger(),
+    ledgerDir: string | null = path.join(process.env.HOME!, '.openclaw', 'state', 'model-router')
+  ) {
+    this.ledgerFile = ledgerDir ? path.join(ledgerDir, 'ledger.json') : null;
+    if (this.config.enabled) this.load();
+  }
+
+  /** Applies new caps in place, so a config reload keeps today's spend. */
+  configure(config: BudgetConfig): void {
+    this.config = config;
+    if (config.enabled && !this.loaded) this.load();
+  }
+
+  charge(channel: string, sender: string | undefined, costUsd: number): void {
+    if (!this.config.enabled || costUsd <= 0) return;
+
+    const now = new Date();
+    this.addTo(this.bucket(this.state.days, this.dayKey(now)), channel, sender, costUsd);
+    this.addTo(this.bucket(this.state.months, this.monthKey(now)), channel, sender, costUsd);
+    this.prune();
+    this.save();
+  }
+
+  check(channel: string, sender?: string): BudgetConstraint | null {
+    if (!this.config.enabled) return null;
+
+    const now = new Date();
+    const day = this.state.days[this.dayKey(now)];
+    const month = this.state.months[this.monthKey(now)];
+    const exceeded = this.findExceededCap(day, month, channel, sender);
+
+    return exceeded ? { mode: this.config.on_exceeded, reason: exceeded } : null;
+  }
+
+  flush(): Promise<void> {
+    if (!this.saveTimer) return this.writing;
+
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    const file = this.ledgerFile!;
+    const contents = JSON.stringify(this.state);
+    this.writing = this.writing
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(file), { recursive: true });
+        await fs.promises.writeFile(file, contents, 'utf8');
+      })
+      .catch(error => this.log.error('Failed to write budget ledger:', error));
+    return this.writing;
+  }
+
+  getStats(): BudgetStats {
+    const now = new Date();
+    return {
+      enabled: this.config.enabled,
+      today: this.state.days[this.dayKey(now)]?.total || 0,
+      month: this.state.months[this.monthKey(now)]?.total || 0,
+      dailyCap: this.config.daily_usd ?? null,
+      monthlyCap: this.config.monthly_usd ?? null,
+    };
+  }
+
+  private findExceededCap(
+    day: LedgerBucket | undefined,
+    month: LedgerBucket | undefined,
+    channel: string,
+    sender?: string
+  ): string | null {
+    const caps: Array<[number | undefined, number, string]> = [
+      [this.config.sender_daily_usd, sender ? day?.senders[sender] || 0 : 0, 'sender daily cap'],
+      [this.config.channel_daily_usd, day?.channels[channel] || 0, `daily cap for channel ${channel}`],
+      [this.config.daily_usd, day?.total || 0, 'global daily cap'],
+      [this.config.monthly_usd, month?.total || 0, 'global monthly cap'],
+    ];
+
+    const hit = caps.find(([cap, spent]) => cap !== undefined && spent >= cap);
+    return hit ? `${hit[2]} of $${hit[0]!.toFixed(2)} reached ($${hit[1].toFixed(2)} spent)` : null;
+  }
+
+  private bucket(buckets: Record<string, LedgerBucket>, key: string): LedgerBucket {
+    if (!buckets[key]) buckets[key] = { total: 0, channels: {}, senders: {} };
+    return buckets[key];
+  }
+
+  private addTo(bucket: LedgerBucket, channel: string, sender: string | undefined, costUsd: number): void {
+    bucket.total += costUsd;
+    bucket.channels[channel] = (bucket.channels[channel] || 0) + costUsd;
+    if (sender) bucket.senders[sender] = (bucket.senders[sender] || 0) + costUsd;
+  }
+
+  private prune(): void {
+    this.keepLatest(this.state.days, BUDGET_PARAMS.RETAINED_DAYS);
+    this.keepLatest(this.state.months, BUDGET_PARAMS.RETAINED_MONTHS);
+  }
+
+  private keepLatest(buckets: Record<string, LedgerBucket>, count: number): void {
+    Object.keys(buckets).sort().slice(0, -count).forEach(key => delete buckets[key]);
+  }
+
+  private dayKey(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private monthKey(date: Date): string {
+    return date.toISOString().slice(0, 7);
+  }
+
+  private load(): void {
+    this.loaded = true;
+    if (!this.ledgerFile || !fs.existsSync(this.ledgerFile)) return;
+
+    try {
+      this.state = JSON.parse(fs.readFileSync(this.ledgerFile, 'utf8'));
+    } catch (error) {
+      this.log.error('Failed to read budget ledger, starting empty:', error);
+    }
+  }
+
+  private save(): void {
+    if (!this.ledgerFile || this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => this.flush(), BUDGET_PARAMS.SAVE_DEBOUNCE_MS);
+    this.saveTimer.unref();
+  }
+}
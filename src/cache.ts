@@ -0,0 +1,91 @@
+import { RoutingResult, CacheStats } from './types';
+
+interface CacheEntry {
+  result: RoutingResult;
+  expiresAt: number;
+}
+
+export class DecisionCache {
+  private entries = new Map<string, CacheEntry>();
+  private fingerprint: string | null = null;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(
+    private enabled: boolean,
+    private ttlSeconds: number,
+    private maxEntries: number
+  ) {}
+
+  get(text: string, channel: string, strategy: string, variant: string = ''): RoutingResult | null {
+    if (!this.enabled) return null;
+
+    const key = this.buildKey(text, channel, strategy, variant);
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) this.entries.delete(key);
+      this.misses++;
+      return null;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.result;
+  }
+
+  set(text: string, channel: string, strategy: string, result: RoutingResult, variant: string = ''): void {
+    if (!this.enabled) return;
+
+    const key = this.buildKey(text, channel, strategy, variant);
+    this.entries.delete(key);
+    this.entries.set(key, { result, expiresAt: Date.now() + this.ttlSeconds * 1000 });
+    this.evictOverflow();
+  }
+
+  /** Applies reloaded settings; disabling drops every entry, a lower limit evicts the oldest. */
+  configure(enabled: boolean, ttlSeconds: number, maxEntries: number): void {
+    this.enabled = enabled;
+    this.ttlSeconds = ttlSeconds;
+    this.maxEntries = maxEntries;
+    if (!enabled) this.invalidate();
+    this.evictOverflow();
+  }
+
+  bindConfig(fingerprint: string): void {
+    if (this.fingerprint === fingerprint) return;
+    this.fingerprint = fingerprint;
+    this.invalidate();
+  }
+
+  invalidate(): void {
+    this.entries.clear();
+  }
+
+  getStats(): CacheStats {
+    return {
+      enabled: this.enabled,
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      ttlSeconds: this.ttlSeconds,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+    };
+  }
+
+  private evictOverflow(): void {
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  private buildKey(text: string, channel: string, strategy: string, variant: string): string {
+    const normalized = text.trim().toLowerCase().replace(/\s+/g, ' ');
+    return `${strategy}\u0000${channel}\u0000${variant}\u0000${normalized}`;
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  ComplexityLevel,
+  DimensionScore,
+  MessageContext,
+  PluginConfig,
+  RankedModel,
+  TiersConfig
+} from './types';
+import { ModelScorer } from './scorer';
+import { ModelRegistry } from './registry';
+import { HealthTracker } from './health';
+import { MessageRequirements } from './capabilities';
+
+export class CandidateRanker {
+  constructor(
+    private tiers: TiersConfig,
+    private pools: PluginConfig['models'],
+    private registry: ModelRegistry,
+    private scorer: ModelScorer,
+    private health?: HealthTracker
+  ) {}
+
+  candidatesFor(tier: ComplexityLevel): string[] {
+    const tierConfig = this.tiers.tiers[tier];
+    const listed = tierConfig.candidates?.length
+      ? tierConfig.candidates
+      : [...this.pools.free, ...this.pools.premium];
+
+    return [...new Set([tierConfig.fullFree, tierConfig.fullPaid, ...listed])]
+      .filter((model): model is string => !!model);
+  }
+
+  rank(
+    tier: ComplexityLevel,
+    dimensionScores: DimensionScore,
+    totalScore: number,
+    message: MessageContext,
+    needs: MessageRequirements
+  ): RankedModel[] {
+    return this.eligibleCandidates(tier, needs)
+      .map(model => ({
+        model,
+        score: this.scorer.calculateScore(model, dimensionScores, totalScore, message, needs.prompt.tokensFor(model)),
+        free: this.registry.isFree(model),
+        promptTokens: needs.prompt.tokensFor(model),
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /** Healthy models that meet the requirements; a fallback that does not would fail the same way. */
+  fallbackChain(tier: ComplexityLevel, selected: string, ranked: RankedModel[], needs: MessageRequirements): string[] {
+    const configured = this.tiers.tiers[tier].fallbacks;
+    const ordered = configured?.length ? configured : ranked.map(candidate => candidate.model);
+    return ordered.filter(model => model !== selected && this.isAvailable(model) && needs.accepts(model));
+  }
+
+  /** Whether any of the tier's candidates can hold the prompt and has the required capabilities. */
+  canServe(tier: ComplexityLevel, needs: MessageRequirements): boolean {
+    return this.candidatesFor(tier).some(model => needs.accepts(model));
+  }
+
+  /**
+   * The candidate with the largest context window across `tiers`, for prompts
+   * none of them can hold. Models with the required capabilities come first.
+   */
+  largestContext(tiers: ComplexityLevel[], needs: MessageRequirements): { tier: ComplexityLevel; model: string } {
+    const all = tiers.flatMap(tier => this.candidatesFor(tier).map(model => ({ tier, model })));
+    const capable = all.filter(({ model }) => needs.supports(model));
+    return (capable.length > 0 ? capable : all).reduce((best, candidate) =>
+      this.registry.get(candidate.model).contextWindow > this.registry.get(best.model).contextWindow ? candidate : best
+    );
+  }
+
+  // Models that are too small or lack a required capability are dropped unless
+  // none qualifies, in which case the router steps up a tier; see
+  // ModelRouter.fitRequirements.
+  private eligibleCandidates(tier: ComplexityLevel, needs: MessageRequirements): string[] {
+    const available = this.availableCandidates(tier);
+    const eligible = available.filter(model => needs.accepts(model));
+    return eligible.length > 0 ? eligible : available;
+  }
+
+  private availableCandidates(tier: ComplexityLevel): string[] {
+    const candidates = this.candidatesFor(tier);
+    const available = candidates.filter(model => this.isAvailable(model));
+    return available.length > 0 ? available : candidates;
+  }
+
+  private isAvailable(model: string): boolean {
+    return !this.health || this.health.isAvailable(model);
+  }
+}
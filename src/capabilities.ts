@@ -0,0 +1,79 @@
+import { CapabilityRequirement, MessageContext, ModelCapability } from './types';
+import { ModelRegistry } from './registry';
+import { PromptSize } from './tokens';
+import { MODEL_CAPABILITIES, SCAN_LIMITS } from './constants';
+
+// Phrasings that only make sense if the model can do it. Kept narrow: a false
+// positive moves the message to a pricier model.
+const TEXT_CUES: Record<ModelCapability, RegExp[]> = {
+  vision: [
+    /\b(?:attached|uploaded) (?:image|photo|picture|screenshot)\b/i,
+    /\b(?:in|on|of|from) (?:this|the attached) (?:image|photo|picture|screenshot)\b/i,
+  ],
+  tools: [
+    /\b(?:search the web|browse to|look (?:it|this|that) up online)\b/i,
+    /\b(?:use (?:the|your) tools?|call the \w+ (?:api|tool))\b/i,
+  ],
+  json: [
+    /\b(?:respond|reply|answer|return|output)(?: only)? (?:with|in|as) (?:valid )?json\b/i,
+    /\bjson (?:mode|schema|object only)\b/i,
+    /\bstructured output\b/i,
+  ],
+  long_output: [
+    /\b(?:\d{1,2},?\d{3}|ten thousand)[- ]words?\b/i,
+    /\b(?:full|complete|entire) (?:book|chapter|report|codebase|manuscript)\b/i,
+    /\blong[- ]form\b/i,
+  ],
+};
+
+/**
+ * Works out what a model must support to answer a message: capabilities the
+ * host set on `capabilities`, vision for image attachments, then cues in the
+ * text. Each capability is reported once, from the most explicit source.
+ */
+export class CapabilityDetector {
+  detect(message: MessageContext): CapabilityRequirement[] {
+    const required = new Map<ModelCapability, CapabilityRequirement>();
+    const add = (capability: ModelCapability, source: CapabilityRequirement['source']) => {
+      if (!required.has(capability)) required.set(capability, { capability, source });
+    };
+
+    message.capabilities?.forEach(capability => add(capability, 'message'));
+    if (message.attachments?.some(attachment => attachment.type === 'image')) add('vision', 'attachment');
+
+    const text = message.text.slice(0, SCAN_LIMITS.MAX_SCAN_CHARS);
+    MODEL_CAPABILITIES
+      .filter(capability => TEXT_CUES[capability].some(cue => cue.test(text)))
+      .forEach(capability => add(capability, 'text'));
+
+    return [...required.values()];
+  }
+}
+
+/** What a model needs to serve one message: room for the prompt and the required capabilities. */
+export class MessageRequirements {
+  constructor(
+    readonly prompt: PromptSize,
+    readonly required: CapabilityRequirement[],
+    private registry: ModelRegistry
+  ) {}
+
+  accepts(model: string): boolean {
+    return this.prompt.fits(model) && this.supports(model);
+  }
+
+  supports(model: string): boolean {
+    return this.missing(model).length === 0;
+  }
+
+  missing(model: string): ModelCapability[] {
+    const declared = this.registry.get(model).capabilities ?? [];
+    return this.required
+      .map(({ capability }) => capability)
+      .filter(capability => !declared.includes(capability));
+  }
+
+  describe(): string {
+    return this.required.map(({ capability, source }) => `${capability} (${source})`).join(', ');
+  }
+}
@@ -1,35 +1,70 @@
-import { MessageFeatures, Dimension } from './types';
-import { TOKEN_ESTIMATE_DIVISOR, LENGTH_THRESHOLDS, LENGTH_SCORES } from './constants';
+import { MessageFeatures, CompiledDimension } from './types';
+import { LENGTH_THRESHOLDS, LENGTH_SCORES, SCAN_LIMITS } from './constants';
+import { TokenEstimator } from './tokens';
+
+const TECHNICAL_TERMS = ['algorithm', 'kubernetes', 'docker', 'distributed', 'architecture', 'microservice', 'database', 'api', 'rest', 'graphql', 'aws', 'gcp', 'azure', 'terraform', 'neural', 'transformer', 'model', 'training'];
+
+interface LocalizedCues {
+  question: RegExp;
+  imperative: RegExp;
+  terms: string[];
+}
+
+// English cues always apply (technical vocabulary is often left untranslated);
+// these add the equivalents for languages users write in. Sinhala and Tamil
+// are verb-final, so their imperatives are matched at the end of the message.
+const LOCALIZED_CUES: Record<string, LocalizedCues> = {
+  es: {
+    question: /¿|\b(cómo|qué|cuándo|dónde|quién|cuál)(?![\wÀ-ÿ])/i,
+    imperative: /^(construye|crea|implementa|diseña|desarrolla|haz|escribe|genera)(?![\wÀ-ÿ])/i,
+    terms: ['algoritmo', 'base de datos', 'arquitectura', 'distribuido', 'microservicio', 'modelo', 'entrenamiento', 'red neuronal'],
+  },
+  de: {
+    question: /\b(wie|was|warum|wieso|wann|wo|wer|welche[rsn]?)\b/i,
+    imperative: /^(baue|erstelle|implementiere|entwirf|entwickle|mache?|schreibe?|generiere)\b/i,
+    terms: ['algorithmus', 'datenbank', 'architektur', 'verteilt', 'schnittstelle', 'modell', 'neuronal'],
+  },
+  si: {
+    question: /කොහොමද|ඇයි|මොකක්ද|මොනවද|කවදා|කොහෙද|කවුද/,
+    imperative: /(ලියන්න|හදන්න|සාදන්න|නිර්මාණය කරන්න|ගොඩනගන්න)[\s.!]*$/,
+    terms: ['ඇල්ගොරිතම', 'දත්ත ගබඩා', 'දත්ත සමුදාය', 'ආකෘතිය', 'සේවාදායකය'],
+  },
+  ta: {
+    question: /எப்படி|ஏன்|என்ன|எப்போது|எங்கே|யார்|எது/,
+    imperative: /(எழுது|உருவாக்கு|வடிவமை|செயல்படுத்து)(ங்கள்)?[\s.!]*$/,
+    terms: ['அல்காரிதம்', 'தரவுத்தளம்', 'கட்டமைப்பு', 'சேவையகம்'],
+  },
+};
 
 export class MessageClassifier {
-  extractFeatures(text: string): MessageFeatures {
+  constructor(private tokens: TokenEstimator = new TokenEstimator()) {}
+
+  extractFeatures(fullText: string, language?: string): MessageFeatures {
+    const text = fullText.slice(0, SCAN_LIMITS.MAX_SCAN_CHARS);
+
     return {
-      tokenCount: this.estimateTokens(text),
+      tokenCount: this.tokens.estimate(fullText),
       hasCode: this.detectCode(text),
       hasMath: this.detectMath(text),
-      isQuestion: this.isQuestionFormat(text),
-      technicalTerms: this.countTechnicalTerms(text),
+      isQuestion: this.isQuestionFormat(text, language),
+      technicalTerms: this.countTechnicalTerms(text, language),
       questionMarks: this.countCharacter(text, '?'),
       codeBlockCount: this.countCodeBlocks(text),
-      imperativeStart: this.startsWithImperative(text),
+      imperativeStart: this.startsWithImperative(text, language),
       hasConstraints: this.detectConstraints(text),
       hasReference: this.detectReference(text),
       hasNegation: this.detectNegation(text),
+      hasStackTrace: this.detectStackTrace(text),
     };
   }
 
-  scoreDimension(text: string, dimension: Dimension): number {
-    if (!dimension.patterns?.length) return 0;
-
-    const matches = dimension.patterns.filter(pattern => {
-      try {
-        return new RegExp(pattern, 'i').test(text);
-      } catch {
-        return false;
-      }
-    }).length;
+  scoreDimension(text: string, dimension: CompiledDimension, language?: string): number {
+    const localized = (language && dimension.patternsByLang[language]) || [];
+    if (!dimension.patterns.length && !localized.length) return 0;
 
-    const capped = Math.min(matches, dimension.max || 3);
+    const matches = dimension.patterns.filter(pattern => pattern.test(text)).length +
+      localized.filter(pattern => pattern.test(text)).length;
+    const capped = Math.min(matches, dimension.max);
     return capped * dimension.weight;
   }
 
@@ -43,10 +78,6 @@ export class MessageClassifier {
     return weight * LENGTH_SCORES.VERY_LONG;
   }
 
-  private estimateTokens(text: string): number {
-    return Math.ceil(text.length / TOKEN_ESTIMATE_DIVISOR);
-  }
-
   private detectCode(text: string): boolean {
     return /```|\bfunction\b|\bclass\b|\bconst\b|\bdef\b|\breturn\b|\bimport\b|\basync\b|\bawait\b|\.py\b|\.js\b|\.ts\b/.test(text);
   }
@@ -55,16 +86,20 @@ export class MessageClassifier {
     return /\d+\s*[\+\-\*\/]\s*\d+|\bequation\b|\bcalculate\b|\bderive\b|\bproof\b|\btheorem\b/i.test(text);
   }
 
-  private isQuestionFormat(text: string): boolean {
-    return /\?|how|what|why|when|where|who/i.test(text);
+  private isQuestionFormat(text: string, language?: string): boolean {
+    return /\?|how|what|why|when|where|who/i.test(text) || !!this.cuesFor(language)?.question.test(text);
   }
 
-  private countTechnicalTerms(text: string): number {
-    const terms = ['algorithm', 'kubernetes', 'docker', 'distributed', 'architecture', 'microservice', 'database', 'api', 'rest', 'graphql', 'aws', 'gcp', 'azure', 'terraform', 'neural', 'transformer', 'model', 'training'];
+  private countTechnicalTerms(text: string, language?: string): number {
+    const terms = [...TECHNICAL_TERMS, ...(this.cuesFor(language)?.terms || [])];
     const lower = text.toLowerCase();
     return terms.filter(term => lower.includes(term)).length;
   }
 
+  private cuesFor(language?: string): LocalizedCues | undefined {
+    return language ? LOCALIZED_CUES[language] : undefined;
+  }
+
   private countCharacter(text: string, char: string): number {
     return (text.match(new RegExp(`\\${char}`, 'g')) || []).length;
   }
@@ -73,8 +108,10 @@ export class MessageClassifier {
     return (text.match(/```/g) || []).length / 2;
   }
 
-  private startsWithImperative(text: string): boolean {
-    return /^(build|create|implement|design|develop|make|write|generate)\b/i.test(text.trim());
+  private startsWithImperative(text: string, language?: string): boolean {
+    const trimmed = text.trim();
+    return /^(build|create|implement|design|develop|make|write|generate)\b/i.test(trimmed) ||
+      !!this.cuesFor(language)?.imperative.test(trimmed);
   }
 
   private detectConstraints(text: string): boolean {
@@ -88,4 +125,8 @@ export class MessageClassifier {
   private detectNegation(text: string): boolean {
     return /\bdon'?t\b|\bavoid\b|\bwithout\b|\bnever\b|\bexcept\b/i.test(text);
   }
+
+  private detectStackTrace(text: string): boolean {
+    return /Traceback \(most recent call last\)|^\s*at\s+\S+.*\(?[\w./\\-]+\.\w+:\d+|^\s*File ".+", line \d+|Exception in thread "|panicked at|goroutine \d+ \[/m.test(text);
+  }
 }
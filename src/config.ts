@@ -1,7 +1,23 @@
 import * as fs from 'fs';
+import * as crypto from 'crypto';
 import * as path from 'path';
 import * as yaml from 'yaml';
-import { PluginConfig, DimensionsConfig, TiersConfig } from './types';
+import {
+  PluginConfig,
+  DimensionsConfig,
+  TiersConfig,
+  ModelsConfig,
+  RoutingStrategy,
+  ConfigSnapshot,
+  Logger
+} from './types';
+import { ModelRegistry } from './registry';
+import { ConfigValidator } from './validation';
+import { RELOAD_PARAMS } from './constants';
+import { StructuredLogger } from './log';
+
+const CONFIG_NAMESPACE = 'model-router';
+const CONFIG_FILES = ['default.yaml', 'dimensions.json', 'tiers.json', 'models.json'];
 
 const DEFAULT_CONFIG: PluginConfig = {
   enabled: true,
@@ -26,10 +42,42 @@ const DEFAULT_CONFIG: PluginConfig = {
     premium_min_score: 0.55,
   },
   timeout_ms: 100,
+  timeout_tier: 'COMPLEX',
+  output_reserve_tokens: 4096,
   cache_decisions: true,
   cache_ttl_seconds: 300,
+  cache_max_entries: 1000,
+  sticky_sessions: true,
+  session_ttl_seconds: 1800,
+  budgets: {
+    enabled: false,
+    on_exceeded: 'free-only',
+  },
+  directives: {
+    enabled: false,
+    models: {},
+    tiers: [],
+    allow_cheap: false,
+  },
+  watch_config: true,
   log_decisions: true,
+  decision_log: {
+    include_text: false,
+    text_max_chars: 200,
+    include_sender: false,
+    hash_senders: true,
+    redact: ['email', 'phone', 'token'],
+    max_archives: 20,
+    max_age_days: 30,
+    compress_archives: true,
+  },
+  sinks: {
+    prometheus: { enabled: false, port: 9464, host: '127.0.0.1' },
+    otlp: { enabled: false, endpoint: 'http://localhost:4318', service_name: 'model-router' },
+    webhook: { enabled: false },
+  },
   log_level: 'info',
+  log_format: 'text',
   channels: {
     whatsapp: { enabled: true },
     telegram: { enabled: true },
@@ -40,13 +88,98 @@ export class ConfigManager {
   private config!: PluginConfig;
   private dimensions!: DimensionsConfig;
   private tiers!: TiersConfig;
+  private models!: ModelsConfig;
+  private version = 0;
+  private loadedAt = new Date();
+  private watcher: fs.FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+  private changedFiles = new Set<string>();
 
-  constructor(private configPath: string = path.join(process.env.HOME!, '.openclaw', 'plugins', 'model-router')) {}
+  constructor(
+    private configPath: string = path.join(process.env.HOME!, '.openclaw', 'plugins', 'model-router'),
+    private log: Logger = new StructuredLogger()
+  ) {}
 
   async load(): Promise<void> {
-    this.config = await this.loadConfig();
-    this.dimensions = await this.loadJson<DimensionsConfig>('dimensions.json');
-    this.tiers = await this.loadJson<TiersConfig>('tiers.json');
+    this.use(await this.read());
+  }
+
+  /** Reads and validates every config file without touching the active config. */
+  async read(): Promise<ConfigSnapshot> {
+    const config = await this.loadConfig();
+    const dimensions = await this.loadJson<DimensionsConfig>('dimensions.json');
+    const tiers = await this.loadJson<TiersConfig>('tiers.json');
+    const models = await this.loadJson<ModelsConfig>('models.json');
+
+    const validator = new ConfigValidator();
+    const problems = [
+      this.describeErrors('default.yaml', validator.validatePluginConfig(config)),
+      this.describeErrors('dimensions.json', validator.validateDimensions(dimensions)),
+      this.describeErrors('tiers.json', validator.validateTiers(tiers)),
+    ].filter((problem): problem is string => problem !== null);
+
+    if (problems.length > 0) throw new Error(problems.join('\n'));
+    this.validateModelReferences(config, tiers, new ModelRegistry(models));
+
+    return { config, dimensions, tiers, models };
+  }
+
+  use(snapshot: ConfigSnapshot): void {
+    this.config = snapshot.config;
+    this.dimensions = snapshot.dimensions;
+    this.tiers = snapshot.tiers;
+    this.models = snapshot.models;
+    this.version++;
+    this.loadedAt = new Date();
+  }
+
+  /**
+   * Watches the config directory and calls `onChange` with the changed file
+   * names once edits settle. Reading and applying the change is up to the caller.
+   */
+  watch(onChange: (files: string[]) => void): void {
+    const configDir = path.join(this.configPath, 'config');
+    if (this.watcher || !fs.existsSync(configDir)) return;
+
+    this.watcher = fs.watch(configDir, (_, filename) => {
+      if (!filename || !CONFIG_FILES.includes(filename.toString())) return;
+
+      this.changedFiles.add(filename.toString());
+      if (this.reloadTimer) clearTimeout(this.reloadTimer);
+      this.reloadTimer = setTimeout(() => {
+        const files = [...this.changedFiles];
+        this.changedFiles.clear();
+        this.reloadTimer = null;
+        this.log.debug(`Config change detected in ${files.join(', ')}`);
+        onChange(files);
+      }, RELOAD_PARAMS.DEBOUNCE_MS);
+      this.reloadTimer.unref();
+    });
+    this.watcher.unref();
+  }
+
+  unwatch(): void {
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+    this.watcher?.close();
+    this.watcher = null;
+    this.reloadTimer = null;
+    this.changedFiles.clear();
+  }
+
+  isWatching(): boolean {
+    return this.watcher !== null;
+  }
+
+  getVersion(): number {
+    return this.version;
+  }
+
+  getLoadedAt(): Date {
+    return this.loadedAt;
+  }
+
+  getConfigPath(): string {
+    return this.configPath;
   }
 
   getConfig(): PluginConfig {
@@ -61,6 +194,17 @@ export class ConfigManager {
     return this.tiers;
   }
 
+  getModels(): ModelsConfig {
+    return this.models;
+  }
+
+  getFingerprint(): string {
+    return crypto
+      .createHash('sha1')
+      .update(JSON.stringify([this.config, this.dimensions, this.tiers, this.models]))
+      .digest('hex');
+  }
+
   isEnabled(channel?: string): boolean {
     if (!this.config.enabled) return false;
     if (channel && this.config.channels[channel]) {
@@ -69,23 +213,74 @@ export class ConfigManager {
     return true;
   }
 
-  getStrategy(): 'cost-optimized' | 'quality-first' | 'balanced' {
+  getStrategy(): RoutingStrategy {
     return this.config.strategy;
   }
 
+  private describeErrors(file: string, errors: string[]): string | null {
+    return errors.length > 0 ? `Invalid ${file}:\n  ${errors.join('\n  ')}` : null;
+  }
+
+  private validateModelReferences(config: PluginConfig, tiers: TiersConfig, registry: ModelRegistry): void {
+    const tierModels = Object.entries(tiers.tiers).flatMap(([tier, config]) =>
+      [config.fullFree, config.fullPaid, ...(config.candidates || []), ...(config.fallbacks || [])]
+        .filter((model): model is string => !!model)
+        .map(model => ({ model, source: `tiers.${tier}` }))
+    );
+    const poolModels = [...config.models.free, ...config.models.premium]
+      .map(model => ({ model, source: 'config.models' }));
+    const directiveModels = Object.entries(config.directives.models)
+      .map(([alias, model]) => ({ model, source: `config.directives.models.${alias}` }));
+
+    const missing = [...tierModels, ...poolModels, ...directiveModels]
+      .filter(({ model }) => !registry.has(model))
+      .map(({ model, source }) => `${source}: ${model}`);
+
+    if (missing.length > 0) {
+      throw new Error(`Models missing from models.json:\n  ${missing.join('\n  ')}`);
+    }
+  }
+
   private async loadConfig(): Promise<PluginConfig> {
     const configFile = path.join(this.configPath, 'config', 'default.yaml');
     
-    if (!fs.existsSync(configFile)) return DEFAULT_CONFIG;
+    if (!fs.existsSync(configFile)) {
+      this.log.debug(`${configFile} not found, using default settings`);
+      return this.mergeDefaults(DEFAULT_CONFIG, {});
+    }
 
+    let loaded: unknown;
     try {
-      const content = fs.readFileSync(configFile, 'utf8');
-      const loaded = yaml.parse(content);
-      return { ...DEFAULT_CONFIG, ...loaded };
+      loaded = yaml.parse(fs.readFileSync(configFile, 'utf8'));
     } catch (error) {
-      console.warn(`Failed to load config from ${configFile}, using defaults:`, error);
-      return DEFAULT_CONFIG;
+      throw new Error(`Invalid default.yaml (${configFile}): ${(error as Error).message}`);
     }
+
+    // The shipped file nests settings under "model-router:"; a flat file is accepted too.
+    const settings = this.isPlainObject(loaded) && CONFIG_NAMESPACE in loaded ? loaded[CONFIG_NAMESPACE] : loaded;
+    if (settings === null || settings === undefined) return this.mergeDefaults(DEFAULT_CONFIG, {});
+    if (!this.isPlainObject(settings)) {
+      throw new Error(`Invalid default.yaml (${configFile}):\n  ${CONFIG_NAMESPACE}: must be a mapping of settings`);
+    }
+
+    return this.mergeDefaults(DEFAULT_CONFIG, settings);
+  }
+
+  /** Deep-merges objects; arrays and scalars from the file replace the defaults. */
+  private mergeDefaults<T>(defaults: T, overrides: Record<string, any>): T {
+    const merged: Record<string, any> = { ...(defaults as Record<string, any>) };
+
+    Object.entries(overrides).forEach(([key, value]) => {
+      merged[key] = this.isPlainObject(value) && this.isPlainObject(merged[key])
+        ? this.mergeDefaults(merged[key], value)
+        : value;
+    });
+
+    return merged as T;
+  }
+
+  private isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
   }
 
   private async loadJson<T>(filename: string): Promise<T> {
@@ -104,8 +299,13 @@ export class ConfigManager {
     if (!fs.existsSync(filePath)) {
       throw new Error(`${filename} not found in plugin or skill directory`);
     }
+    if (filePath === fallbackPath) this.log.debug(`Loading ${filename} from the skill directory: ${filePath}`);
 
     const content = fs.readFileSync(filePath, 'utf8');
-    return JSON.parse(content);
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Invalid ${filename} (${filePath}): ${(error as Error).message}`);
+    }
   }
 }
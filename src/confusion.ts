@@ -0,0 +1,42 @@
+import { ComplexityLevel } from './types';
+import { COMPLEXITY_LEVELS } from './constants';
+
+/** Tier-by-tier counts; rows are the reference tier, columns the compared one. */
+export class ConfusionMatrix {
+  private counts: Record<string, Record<string, number>> = {};
+
+  add(row: ComplexityLevel, column: ComplexityLevel): void {
+    if (!this.counts[row]) this.counts[row] = {};
+    this.counts[row][column] = (this.counts[row][column] || 0) + 1;
+  }
+
+  get(row: ComplexityLevel, column: ComplexityLevel): number {
+    return this.counts[row]?.[column] || 0;
+  }
+
+  rowTotal(row: ComplexityLevel): number {
+    return COMPLEXITY_LEVELS.reduce((sum, column) => sum + this.get(row, column), 0);
+  }
+
+  columnTotal(column: ComplexityLevel): number {
+    return COMPLEXITY_LEVELS.reduce((sum, row) => sum + this.get(row, column), 0);
+  }
+
+  toJSON(): Record<string, Record<string, number>> {
+    return Object.fromEntries(COMPLEXITY_LEVELS.map(row =>
+      [row, Object.fromEntries(COMPLEXITY_LEVELS.map(column => [column, this.get(row, column)]))]
+    ));
+  }
+
+  static format(matrix: Record<string, Record<string, number>>, rowLabel: string, columnLabel: string): string[] {
+    const width = Math.max(...COMPLEXITY_LEVELS.map(level => level.length)) + 1;
+    const header = `${`${rowLabel} \\ ${columnLabel}`.padEnd(width + 12)}${COMPLEXITY_LEVELS.map(level => level.padStart(width)).join('')}`;
+
+    return [
+      header,
+      ...COMPLEXITY_LEVELS.map(row =>
+        `${row.padEnd(width + 12)}${COMPLEXITY_LEVELS.map(column => String(matrix[row]?.[column] || 0).padStart(width)).join('')}`
+      ),
+    ];
+  }
+}
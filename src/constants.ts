@@ -1,3 +1,5 @@
+import { ComplexityLevel, ModelCapability, TierRule, TokenizerFamily, TokenizerProfile } from './types';
+
 export const DIMENSION_WEIGHTS = {
   COST_EFFICIENCY: 0.25,
   TASK_SUITABILITY: 0.20,
@@ -15,7 +17,24 @@ export const DIMENSION_WEIGHTS = {
   EXPERIMENTAL_FEATURES: 0.0025,
 } as const;
 
-export const TOKEN_ESTIMATE_DIVISOR = 4;
+// Rough tokenizer density per model family: Latin-script characters per token,
+// and tokens per CJK or other non-Latin character. Unknown models use the
+// conservative default so size estimates err towards larger prompts.
+export const TOKENIZER_PROFILES: Record<TokenizerFamily, TokenizerProfile> = {
+  default: { charsPerToken: 3.5, cjkTokensPerChar: 1.0, otherTokensPerChar: 1.0 },
+  claude: { charsPerToken: 3.5, cjkTokensPerChar: 1.0, otherTokensPerChar: 1.2 },
+  gpt: { charsPerToken: 4.0, cjkTokensPerChar: 0.8, otherTokensPerChar: 0.6 },
+  gemini: { charsPerToken: 4.0, cjkTokensPerChar: 0.7, otherTokensPerChar: 0.5 },
+  llama: { charsPerToken: 4.0, cjkTokensPerChar: 0.9, otherTokensPerChar: 0.8 },
+  qwen: { charsPerToken: 3.8, cjkTokensPerChar: 0.7, otherTokensPerChar: 0.9 },
+  deepseek: { charsPerToken: 3.8, cjkTokensPerChar: 0.7, otherTokensPerChar: 1.0 },
+  mistral: { charsPerToken: 3.5, cjkTokensPerChar: 1.0, otherTokensPerChar: 1.0 },
+};
+
+export const TOKEN_PARAMS = {
+  SYMBOLS_PER_TOKEN: 1.5,
+  OUTPUT_RESERVE_TOKENS: 4096,
+} as const;
 
 export const LENGTH_THRESHOLDS = {
   TINY: 50,
@@ -32,29 +51,118 @@ export const LENGTH_SCORES = {
   VERY_LONG: 1.5,
 } as const;
 
-export const CONTEXT_WINDOW_SIZES = {
-  CLAUDE: 200000,
-  GPT4: 128000,
-  LLAMA: 128000,
-  QWEN: 32000,
-  DEFAULT: 8000,
+// Confidence is a sigmoid of the margin between the deciding rule and the
+// runner-up tier's best rule; margins are relative to each threshold.
+// Multi-vendor gateways; the provider-diversity score favors models served
+// through them over a single vendor's API.
+export const GATEWAY_PROVIDERS = ['openrouter'];
+
+export const CONFIDENCE_PARAMS = {
+  K: 3,
+  MIN_SCALE: 0.01,
+  NO_RUNNER_UP: -1,
+} as const;
+
+export const STRATEGY_PARAMS = {
+  BALANCED_MIN_CONFIDENCE: 0.7,
+  BORDERLINE_MARGIN: 0.05,
+  CONTEXT_FILL_LIMIT: 0.8,
+} as const;
+
+export const SESSION_PARAMS = {
+  SWITCH_CONFIDENCE: 0.85,
+  HISTORY_WINDOW: 3,
+  MAX_RECENT_TURNS: 5,
+  MAX_SESSIONS: 5000,
+} as const;
+
+export const HEALTH_PARAMS = {
+  FAILURE_THRESHOLD: 3,
+  FAILURE_COOLDOWN_MS: 30 * 1000,
+  RATE_LIMIT_COOLDOWN_MS: 60 * 1000,
+  LATENCY_SMOOTHING: 0.2,
+  MAX_PENDING_RESULTS: 1000,
 } as const;
 
-export const MODEL_QUALITY_SCORES = {
-  OPUS: 0.95,
-  SONNET: 0.90,
-  GPT4: 0.90,
-  CLAUDE: 0.85,
-  LLAMA_3_3: 0.75,
-  QWEN: 0.70,
-  DEFAULT: 0.60,
+export const BUDGET_PARAMS = {
+  DOWNGRADE_TIER: 'COMPLEX',
+  RETAINED_DAYS: 62,
+  RETAINED_MONTHS: 24,
+  TOKENS_PER_PRICE_UNIT: 1000 * 1000,
+  SAVE_DEBOUNCE_MS: 1000,
 } as const;
 
-export const SIGMOID_PARAMS = {
-  K: 10,
-  MIDPOINT: 0.3,
+export const SCAN_LIMITS = {
+  MAX_SCAN_CHARS: 4000,
+} as const;
+
+export const LANGUAGE_PARAMS = {
+  DEFAULT: 'en',
+  UNDETERMINED: 'und',
 } as const;
 
 export const LOG_FILE_MAX_SIZE = 10 * 1024 * 1024;
+export const LOG_RETENTION_CHECK_MS = 60 * 60 * 1000;
+
+export const SINK_PARAMS = {
+  JSONL_FLUSH_MS: 1000,
+  JSONL_MAX_BUFFER: 200,
+  HTTP_BATCH_SIZE: 50,
+  HTTP_FLUSH_MS: 5000,
+  HTTP_MAX_QUEUE: 5000,
+  HTTP_TIMEOUT_MS: 5000,
+  MAX_RETRIES: 3,
+  RETRY_BACKOFF_MS: 500,
+} as const;
+
+export const LATENCY_BUCKETS_SECONDS = [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1];
 export const DEFAULT_TIMEOUT_MS = 100;
 export const DEFAULT_CACHE_TTL_SECONDS = 300;
+export const DEFAULT_CACHE_MAX_ENTRIES = 1000;
+export const DEFAULT_SESSION_TTL_SECONDS = 1800;
+
+export const STATS_PARAMS = {
+  LOW_CONFIDENCE: 0.7,
+  ASSUMED_OUTPUT_TOKENS: 500,
+} as const;
+
+export const EVAL_PARAMS = {
+  MIN_ACCURACY: 0.8,
+} as const;
+
+export const TUNE_PARAMS = {
+  ROUNDS: 3,
+  SCALE_STEPS: [0.5, 0.75, 0.9, 1.1, 1.25, 1.5, 2],
+  MAX_STEPS: [-2, -1, 1, 2],
+  PRECISION: 1000,
+} as const;
+
+export const RELOAD_PARAMS = {
+  DEBOUNCE_MS: 250,
+  MAX_EVENTS: 20,
+} as const;
+
+export const THRESHOLD_DEFAULTS: Record<string, number> = {
+  MULTISTEP_TRIGGER: 0.10,
+  SIMPLE_TRIGGER: 0.10,
+  SIMPLE_TOTAL_CAP: 0.30,
+};
+
+// Used when tiers.json has no "rules"; mirrors the original fixed tier order.
+export const DEFAULT_TIER_RULES: TierRule[] = [
+  { name: 'reasoning', when: { dimensions: { reasoning: { '>=': 'REASONING_TRIGGER' } } }, then: { tier: 'REASONING' } },
+  { name: 'coding', when: { dimensions: { code: { '>=': 'CODING_TRIGGER' } } }, then: { tier: 'CODING' } },
+  { name: 'creative', when: { dimensions: { creative: { '>=': 'CREATIVE_TRIGGER' } } }, then: { tier: 'CREATIVE' } },
+  { name: 'multistep', when: { dimensions: { multistep: { '>=': 'MULTISTEP_TRIGGER' } } }, then: { tier: 'COMPLEX' } },
+  { name: 'simple-signal', when: { dimensions: { simple: { '>=': 'SIMPLE_TRIGGER' } }, total: { '<': 'SIMPLE_TOTAL_CAP' } }, then: { tier: 'SIMPLE' }, fallback: true },
+  { name: 'low-score', when: { total: { '<': 'SIMPLE_MAX' } }, then: { tier: 'SIMPLE' }, fallback: true },
+  { name: 'premium-score', when: { total: { '>=': 'PREMIUM_MIN' } }, then: { tier: 'PREMIUM' } },
+  { name: 'complex-score', when: { total: { '>=': 'COMPLEX_MIN' } }, then: { tier: 'COMPLEX' } },
+];
+
+export const COMPLEXITY_LEVELS: ComplexityLevel[] = ['SIMPLE', 'CODING', 'CREATIVE', 'REASONING', 'COMPLEX', 'PREMIUM'];
+
+export const MODEL_CAPABILITIES: ModelCapability[] = ['vision', 'tools', 'json', 'long_output'];
+
+// Least to most capable; low-confidence escalation only moves up this list.
+export const ESCALATION_ORDER: ComplexityLevel[] = ['SIMPLE', 'CREATIVE', 'CODING', 'COMPLEX', 'REASONING', 'PREMIUM'];
@@ -0,0 +1,52 @@
+import * as fs from 'fs';
+import { CorpusEntry } from './types';
+
+/**
+ * Reads prompts from plain text (one per line) or JSONL. JSONL lines need a
+ * "text" field and may carry "channel", "sender", "language", "metadata",
+ * "history" (earlier turns, oldest first) and "expected". Decision-log
+ * entries only carry "text" when written with `decision_log.include_text`,
+ * and then redacted and cut to `text_max_chars`, so they replay an
+ * approximation of the original message; entries without it, and other
+ * lines without usable text, are counted as skipped.
+ */
+export function readCorpus(file: string): { entries: CorpusEntry[]; skipped: number } {
+  const entries: CorpusEntry[] = [];
+  let skipped = 0;
+
+  fs.readFileSync(file, 'utf8').split('\n').forEach((line, index) => {
+    const trimmed = line.trim();
+    if (trimmed.length === 0) return;
+
+    if (!trimmed.startsWith('{')) {
+      entries.push({ message: { id: `corpus-${index + 1}`, text: trimmed, channel: 'default' } });
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (typeof parsed.text !== 'string' || parsed.text.length === 0) {
+        skipped++;
+        return;
+      }
+      entries.push({
+        message: {
+          id: parsed.message_id || parsed.id || `corpus-${index + 1}`,
+          text: parsed.text,
+          channel: parsed.channel || 'default',
+          sender: parsed.sender,
+          language: parsed.language,
+          metadata: parsed.metadata,
+          history: parsed.history,
+          attachments: parsed.attachments,
+          capabilities: parsed.capabilities,
+        },
+        expected: parsed.expected,
+      });
+    } catch {
+      skipped++;
+    }
+  });
+
+  return { entries, skipped };
+}
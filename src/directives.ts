@@ -0,0 +1,66 @@
+import { ComplexityLevel, DirectivesConfig, ParsedDirectives, RoutingOverride } from './types';
+
+const DIRECTIVE_PATTERN = /^(@[\w.-]+|\/model\s+[\w./:-]+|\/tier\s+\w+|!cheap)(?:\s+|$)/i;
+
+/**
+ * Parses routing directives at the start of a message (`@opus`, `/model sonnet`,
+ * `/tier reasoning`, `!cheap`). Only allowlisted directives are honoured and
+ * stripped; parsing stops at the first token that is not one.
+ */
+export class DirectiveParser {
+  private aliases: Map<string, string>;
+
+  constructor(private config: DirectivesConfig) {
+    this.aliases = new Map(Object.entries(config.models || {}).map(([alias, model]) => [alias.toLowerCase(), model]));
+  }
+
+  parse(text: string, sender?: string): ParsedDirectives {
+    if (!this.config.enabled) return { text, rejected: [] };
+
+    const permitted = !this.config.senders?.length || (!!sender && this.config.senders.includes(sender));
+    const override: Partial<RoutingOverride> = {};
+    const accepted: string[] = [];
+    const rejected: string[] = [];
+    let remaining = text.trimStart();
+    let match: RegExpMatchArray | null;
+
+    while ((match = remaining.match(DIRECTIVE_PATTERN))) {
+      const token = match[1].replace(/\s+/g, ' ');
+      const applied = permitted && this.apply(token, override);
+
+      if (!applied) {
+        if (!token.startsWith('@') || this.aliases.has(token.slice(1).toLowerCase())) rejected.push(token);
+        break;
+      }
+
+      accepted.push(token);
+      remaining = remaining.slice(match[0].length);
+    }
+
+    if (accepted.length === 0) return { text, rejected };
+    return { text: remaining, override: { ...override, directive: accepted.join(' ') }, rejected };
+  }
+
+  private apply(token: string, override: Partial<RoutingOverride>): boolean {
+    const [command, argument = ''] = token.split(' ');
+
+    switch (command.toLowerCase()) {
+      case '!cheap':
+        if (!this.config.allow_cheap) return false;
+        override.cheap = true;
+        return true;
+      case '/tier': {
+        const tier = argument.toUpperCase() as ComplexityLevel;
+        if (!this.config.tiers.includes(tier)) return false;
+        override.tier = tier;
+        return true;
+      }
+      default: {
+        const model = this.aliases.get((command === '/model' ? argument : command.slice(1)).toLowerCase());
+        if (!model) return false;
+        override.model = model;
+        return true;
+      }
+    }
+  }
+}
@@ -0,0 +1,6 @@
+export class RoutingTimeoutError extends Error {
+  constructor(public readonly deadline: number) {
+    super(`Routing exceeded deadline at ${new Date(deadline).toISOString()}`);
+    this.name = 'RoutingTimeoutError';
+  }
+}
@@ -0,0 +1,97 @@
+import { ComplexityLevel, CorpusEntry, EvalReport, Misclassification, RoutingStrategy, TierMetrics } from './types';
+import { ModelRouter } from './router';
+import { ConfusionMatrix } from './confusion';
+import { COMPLEXITY_LEVELS } from './constants';
+
+/**
+ * Scores tier classification against labeled fixtures (`expected` tier per
+ * message). Only the tier is checked; model choice depends on strategy and
+ * health and is out of scope here.
+ */
+export class TierEvaluation {
+  constructor(
+    private router: ModelRouter,
+    private strategy: RoutingStrategy,
+    private minAccuracy: number
+  ) {}
+
+  async run(entries: CorpusEntry[], skipped: number = 0): Promise<EvalReport> {
+    const labeled = entries.filter(entry => entry.expected !== undefined);
+    const invalid = labeled.filter(entry => !COMPLEXITY_LEVELS.includes(entry.expected!));
+    if (invalid.length > 0) {
+      const labels = invalid.map(entry => `"${entry.expected}" (${entry.message.id})`).join(', ');
+      throw new Error(`Unknown expected tier ${labels}: use one of ${COMPLEXITY_LEVELS.join(', ')}`);
+    }
+
+    const confusion = new ConfusionMatrix();
+    const misclassified: Misclassification[] = [];
+
+    for (const { message, expected } of labeled) {
+      const result = await this.router.route({ ...message }, { strategy: this.strategy, timeoutMs: Infinity });
+      confusion.add(expected!, result.tier);
+      if (result.tier !== expected) {
+        misclassified.push({
+          text: message.text,
+          channel: message.channel,
+          expected: expected!,
+          predicted: result.tier,
+          firedRules: result.firedRules,
+        });
+      }
+    }
+
+    const correct = labeled.length - misclassified.length;
+    const accuracy = labeled.length > 0 ? correct / labeled.length : 0;
+
+    return {
+      fixtures: labeled.length,
+      skipped: skipped + entries.length - labeled.length,
+      correct,
+      accuracy,
+      minAccuracy: this.minAccuracy,
+      passed: labeled.length > 0 && accuracy >= this.minAccuracy,
+      tiers: Object.fromEntries(COMPLEXITY_LEVELS.map(tier => [tier, this.metricsFor(confusion, tier)])),
+      confusion: confusion.toJSON(),
+      misclassified,
+    };
+  }
+
+  static format(report: EvalReport): string {
+    const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+    const lines = [
+      `Evaluated ${report.fixtures} labeled prompts${report.skipped > 0 ? ` (${report.skipped} skipped)` : ''}`,
+      `Accuracy: ${report.correct}/${report.fixtures} = ${percent(report.accuracy)} (floor ${percent(report.minAccuracy)})`,
+      '',
+      `${'Tier'.padEnd(12)}${'precision'.padStart(10)}${'recall'.padStart(10)}${'support'.padStart(9)}`,
+      ...Object.entries(report.tiers).map(([tier, metrics]) =>
+        `${tier.padEnd(12)}${percent(metrics.precision).padStart(10)}${percent(metrics.recall).padStart(10)}${String(metrics.support).padStart(9)}`
+      ),
+      '',
+      ...ConfusionMatrix.format(report.confusion, 'expected', 'predicted'),
+    ];
+
+    if (report.misclassified.length > 0) {
+      lines.push('', 'Misclassified:');
+      report.misclassified.forEach(miss => {
+        const rules = miss.firedRules.length > 0 ? ` [${miss.firedRules.join(', ')}]` : '';
+        lines.push(`  expected ${miss.expected}, got ${miss.predicted}${rules}: ${miss.text.replace(/\s+/g, ' ')}`);
+      });
+    }
+
+    lines.push('', report.passed ? 'PASS' : `FAIL: accuracy below ${percent(report.minAccuracy)}`);
+    return lines.join('\n');
+  }
+
+  private metricsFor(confusion: ConfusionMatrix, tier: ComplexityLevel): TierMetrics {
+    const hits = confusion.get(tier, tier);
+    const support = confusion.rowTotal(tier);
+    const predicted = confusion.columnTotal(tier);
+
+    return {
+      precision: predicted > 0 ? hits / predicted : 0,
+      recall: support > 0 ? hits / support : 0,
+      support,
+      predicted,
+    };
+  }
+}
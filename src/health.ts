@@ -0,0 +1,77 @@
+import { ModelHealthStats, ModelOutcome } from './types';
+import { HEALTH_PARAMS } from './constants';
+
+interface ModelHealth {
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  openUntil: number;
+  lastError: string | null;
+  avgLatencyMs: number | null;
+}
+
+export class HealthTracker {
+  private models = new Map<string, ModelHealth>();
+
+  isAvailable(model: string): boolean {
+    const health = this.models.get(model);
+    return !health || health.openUntil <= Date.now();
+  }
+
+  record(model: string, outcome: ModelOutcome): void {
+    const health = this.getOrCreate(model);
+    this.trackLatency(health, outcome.latencyMs);
+
+    if (outcome.ok) {
+      health.successes++;
+      health.consecutiveFailures = 0;
+      health.openUntil = 0;
+      return;
+    }
+
+    health.failures++;
+    health.consecutiveFailures++;
+    health.lastError = outcome.errorCode !== undefined ? String(outcome.errorCode) : 'unknown';
+
+    if (this.isRateLimit(outcome.errorCode)) {
+      health.openUntil = Date.now() + HEALTH_PARAMS.RATE_LIMIT_COOLDOWN_MS;
+    } else if (health.consecutiveFailures >= HEALTH_PARAMS.FAILURE_THRESHOLD) {
+      health.openUntil = Date.now() + HEALTH_PARAMS.FAILURE_COOLDOWN_MS;
+    }
+  }
+
+  getStats(): Record<string, ModelHealthStats> {
+    const now = Date.now();
+    return Object.fromEntries(
+      [...this.models.entries()].map(([model, health]) => [model, {
+        available: health.openUntil <= now,
+        successes: health.successes,
+        failures: health.failures,
+        consecutiveFailures: health.consecutiveFailures,
+        lastError: health.lastError,
+        avgLatencyMs: health.avgLatencyMs,
+        reopensAt: health.openUntil > now ? new Date(health.openUntil).toISOString() : null,
+      }])
+    );
+  }
+
+  private getOrCreate(model: string): ModelHealth {
+    let health = this.models.get(model);
+    if (!health) {
+      health = { successes: 0, failures: 0, consecutiveFailures: 0, openUntil: 0, lastError: null, avgLatencyMs: null };
+      this.models.set(model, health);
+    }
+    return health;
+  }
+
+  private trackLatency(health: ModelHealth, latencyMs?: number): void {
+    if (latencyMs === undefined) return;
+    health.avgLatencyMs = health.avgLatencyMs === null
+      ? latencyMs
+      : health.avgLatencyMs + HEALTH_PARAMS.LATENCY_SMOOTHING * (latencyMs - health.avgLatencyMs);
+  }
+
+  private isRateLimit(errorCode?: string | number): boolean {
+    return errorCode === 429 || errorCode === '429' || errorCode === 'rate_limit';
+  }
+}
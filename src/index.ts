@@ -1,7 +1,53 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
 import { ModelRouter } from './router';
 import { ConfigManager } from './config';
 import { DecisionLogger } from './logger';
-import { MessageContext, PluginContext, Logger } from './types';
+import { DecisionCache } from './cache';
+import { SessionStore } from './session';
+import { HealthTracker } from './health';
+import { BudgetLedger } from './budget';
+import { DirectiveParser } from './directives';
+import { PrometheusMetrics } from './metrics';
+import { createSinks } from './sinks';
+import { StructuredLogger } from './log';
+import { DimensionBenchmark, BENCHMARK_SAMPLES } from './benchmark';
+import { DecisionStats } from './stats';
+import { ModelRegistry } from './registry';
+import { ReplayComparison, ReplayTarget } from './replay';
+import { readCorpus } from './corpus';
+import { TierEvaluation } from './evaluation';
+import { PrivacyCheck, readPrivacyCases } from './privacy';
+import { ConfigTuner } from './tuner';
+import {
+  DEFAULT_CACHE_TTL_SECONDS,
+  DEFAULT_CACHE_MAX_ENTRIES,
+  DEFAULT_SESSION_TTL_SECONDS,
+  DEFAULT_TIMEOUT_MS,
+  HEALTH_PARAMS,
+  RELOAD_PARAMS,
+  STATS_PARAMS,
+  EVAL_PARAMS,
+  TUNE_PARAMS
+} from './constants';
+import {
+  MessageContext,
+  PluginContext,
+  Logger,
+  RoutingResult,
+  RoutingOverride,
+  ModelOutcome,
+  BenchmarkReport,
+  ConfigSnapshot,
+  DimensionsConfig,
+  ModelsConfig,
+  TiersConfig,
+  ConfigStatus,
+  DecisionSink,
+  PluginConfig,
+  ReloadEvent
+} from './types';
 
 export const metadata = {
   name: 'model-router',
@@ -11,52 +57,72 @@ export const metadata = {
   repository: 'https://github.com/madushan-sooriyarathne/openclaw-plugin-model-router',
 };
 
-class SimpleLogger implements Logger {
-  constructor(private prefix: string = '[ModelRouter]') {}
-
-  debug(message: string, ...args: any[]): void {
-    console.debug(`${this.prefix} [DEBUG]`, message, ...args);
-  }
-
-  info(message: string, ...args: any[]): void {
-    console.info(`${this.prefix} [INFO]`, message, ...args);
-  }
-
-  warn(message: string, ...args: any[]): void {
-    console.warn(`${this.prefix} [WARN]`, message, ...args);
-  }
+interface RoutingComponents {
+  router: ModelRouter;
+  logger: DecisionLogger;
+  sinks: DecisionSink[];
+  directives: DirectiveParser;
+}
 
-  error(message: string, ...args: any[]): void {
-    console.error(`${this.prefix} [ERROR]`, message, ...args);
-  }
+interface PendingResult {
+  model: string;
+  chain: string[];
+  tried: Set<string>;
+  channel: string;
+  sender?: string;
 }
 
 export class ModelRouterPlugin {
   private router: ModelRouter | null = null;
   private configManager: ConfigManager | null = null;
   private logger: DecisionLogger | null = null;
-  private pluginLogger: Logger;
+  private sinks: DecisionSink[] = [];
+  private customSinks: DecisionSink[] = [];
+  private metrics = new PrometheusMetrics();
+  private metricsServer: http.Server | null = null;
+  private cache: DecisionCache | null = null;
+  private sessions: SessionStore | null = null;
+  private health = new HealthTracker();
+  private budget: BudgetLedger | null = null;
+  private directives: DirectiveParser | null = null;
+  private pending = new Map<string, PendingResult>();
+  private reloads: ReloadEvent[] = [];
+  private pluginLogger: StructuredLogger;
   private initialized: boolean = false;
 
   constructor(pluginLogger?: Logger) {
-    this.pluginLogger = pluginLogger || new SimpleLogger();
+    this.pluginLogger = this.wrapLogger(pluginLogger);
   }
 
   async init(context?: PluginContext): Promise<void> {
+    if (context?.logger) this.pluginLogger = this.wrapLogger(context.logger);
+
     try {
+      this.configManager = new ConfigManager(context?.configPath, this.pluginLogger);
+      const snapshot = await this.configManager.read();
+      const { config, dimensions, tiers, models } = snapshot;
+      this.pluginLogger.configure(config.log_level, config.log_format);
       this.pluginLogger.info('Initializing Model Router Plugin v1.0.0...');
 
-      this.configManager = new ConfigManager(context?.configPath);
-      await this.configManager.load();
-
-      const config = this.configManager.getConfig();
-      const dimensions = this.configManager.getDimensions();
-      const tiers = this.configManager.getTiers();
-
-      this.pluginLogger.info(`Loaded ${dimensions.dimensions.length} dimensions and ${Object.keys(tiers.tiers).length} tiers`);
+      this.pluginLogger.info(
+        `Loaded ${dimensions.dimensions.length} dimensions, ${Object.keys(tiers.tiers).length} tiers and ${Object.keys(models.models).length} models`
+      );
 
-      this.router = new ModelRouter(dimensions, tiers);
-      this.logger = new DecisionLogger(config.log_decisions);
+      this.install(this.buildComponents(snapshot));
+      this.configManager.use(snapshot);
+      this.budget = new BudgetLedger(config.budgets, this.pluginLogger);
+      this.cache = new DecisionCache(
+        config.cache_decisions,
+        config.cache_ttl_seconds || DEFAULT_CACHE_TTL_SECONDS,
+        config.cache_max_entries || DEFAULT_CACHE_MAX_ENTRIES
+      );
+      this.cache.bindConfig(this.configManager.getFingerprint());
+      this.sessions = new SessionStore(
+        config.sticky_sessions,
+        config.session_ttl_seconds || DEFAULT_SESSION_TTL_SECONDS
+      );
+      if (config.sinks.prometheus.enabled) await this.serveMetrics(config.sinks.prometheus);
+      if (config.watch_config) this.configManager.watch(files => this.reload(files));
       this.initialized = true;
 
       this.pluginLogger.info('Model Router Plugin initialized successfully');
@@ -72,29 +138,63 @@ export class ModelRouterPlugin {
       return context;
     }
 
+    const log = this.messageLog(message);
     if (!this.configManager!.isEnabled(message.channel)) {
-      this.pluginLogger.debug(`Routing disabled for channel: ${message.channel}`);
+      log.debug(`Routing disabled for channel: ${message.channel}`);
       return context;
     }
 
     try {
-      const result = await this.performRouting(message);
+      const override = this.applyDirectives(message);
+      const result = await this.performRouting(message, override);
       await this.logRoutingDecision(message, result);
       
       context.modelOverride = result.fullModel;
+      this.trackPending(message, result);
+      this.chargeUsage(message.channel, message.sender, result.fullModel, result.estimatedTokens, 0);
       
-      this.pluginLogger.info(
+      log.debug(
         `Routed to ${result.model} (${result.tier}) in ${result.executionTimeMs}ms [confidence: ${(result.confidence * 100).toFixed(1)}%]`
       );
 
       await this.logger!.rotateLogIfNeeded();
       return context;
     } catch (error) {
-      this.pluginLogger.error('Routing failed, using default model:', error);
+      log.error('Routing failed, using default model:', error);
       return context;
     }
   }
 
+  onModelResult(messageId: string, outcome: ModelOutcome): string | null {
+    const pending = this.pending.get(messageId);
+    const model = outcome.model || pending?.model;
+    if (!model) return null;
+
+    this.health.record(model, outcome);
+    if (pending && outcome.outputTokens) {
+      this.chargeUsage(pending.channel, pending.sender, model, 0, outcome.outputTokens);
+    }
+
+    if (outcome.ok || !pending) {
+      this.pending.delete(messageId);
+      return null;
+    }
+
+    pending.tried.add(model);
+    const next = pending.chain.find(candidate => !pending.tried.has(candidate) && this.health.isAvailable(candidate));
+
+    const log = this.pluginLogger.child({ message_id: messageId, channel: pending.channel });
+    if (!next) {
+      this.pending.delete(messageId);
+      log.warn(`${model} failed and no healthy fallback remains`);
+      return null;
+    }
+
+    pending.model = next;
+    log.info(`${model} failed (${outcome.errorCode ?? 'unknown'}), falling back to ${next}`);
+    return next;
+  }
+
   async route(text: string, channel: string = 'default'): Promise<any> {
     if (!this.router) throw new Error('Plugin not initialized. Call init() first.');
 
@@ -105,8 +205,12 @@ export class ModelRouterPlugin {
       timestamp: Date.now(),
     };
 
-    const preferFree = this.configManager!.getStrategy() === 'cost-optimized';
-    return await this.router.route(message, preferFree);
+    return await this.performRouting(message, this.applyDirectives(message));
+  }
+
+  benchmark(texts: string[] = BENCHMARK_SAMPLES, iterations: number = 100): BenchmarkReport {
+    if (!this.router) throw new Error('Plugin not initialized. Call init() first.');
+    return this.router.benchmarkDimensions(texts, iterations);
   }
 
   formatResult(result: any, verbose: boolean = false): string {
@@ -114,12 +218,67 @@ export class ModelRouterPlugin {
     return this.router.formatResult(result, verbose);
   }
 
+  /**
+   * Adds a sink that receives every logged decision from now on, across config
+   * reloads. The caller owns it; `destroy()` only flushes it.
+   */
+  addSink(sink: DecisionSink): void {
+    this.customSinks.push(sink);
+    this.logger?.addSink(sink);
+  }
+
+  /** Routing counters and latency histograms in Prometheus text format. */
+  getMetrics(): string {
+    return this.metrics.render();
+  }
+
+  /**
+   * Re-reads the config directory and swaps in a new router only if every file
+   * validates; on failure the running config stays in place.
+   */
+  async reload(files: string[] = []): Promise<boolean> {
+    const manager = this.configManager;
+    if (!manager) return false;
+
+    try {
+      const snapshot = await manager.read();
+      const components = this.buildComponents(snapshot);
+
+      this.install(components);
+      manager.use(snapshot);
+      this.pluginLogger.configure(snapshot.config.log_level, snapshot.config.log_format);
+      this.configureStores(snapshot.config);
+      this.cache?.bindConfig(manager.getFingerprint());
+      this.recordReload(files, true);
+      this.pluginLogger.info(
+        `Reloaded configuration${files.length ? ` (${files.join(', ')})` : ''}: version ${manager.getVersion()}, hash ${manager.getFingerprint().slice(0, 12)}`
+      );
+      return true;
+    } catch (error) {
+      this.recordReload(files, false, (error as Error).message);
+      this.pluginLogger.error(`Rejected configuration change, keeping version ${manager.getVersion()}:`, error);
+      return false;
+    }
+  }
+
+  /** Stops watching config, closes the metrics endpoint and writes buffered decisions and spend. */
   async destroy(): Promise<void> {
     this.pluginLogger.info('Model Router Plugin shutting down');
+    this.configManager?.unwatch();
+    this.metricsServer?.close();
+    this.metricsServer = null;
+    await this.retire(this.logger, this.sinks);
+    await this.budget?.flush();
+    this.sinks = [];
     this.initialized = false;
     this.router = null;
     this.configManager = null;
     this.logger = null;
+    this.cache = null;
+    this.sessions = null;
+    this.budget = null;
+    this.directives = null;
+    this.pending.clear();
   }
 
   getStatus(): any {
@@ -128,22 +287,191 @@ export class ModelRouterPlugin {
       version: metadata.version,
       enabled: this.configManager?.isEnabled() || false,
       strategy: this.configManager?.getStrategy() || 'unknown',
+      cache: this.cache?.getStats() || null,
+      sessions: this.sessions?.getStats() || null,
+      health: this.health.getStats(),
+      budget: this.budget?.getStats() || null,
+      config: this.getConfigStatus(),
+    };
+  }
+
+  private getConfigStatus(): ConfigStatus | null {
+    if (!this.configManager || !this.initialized) return null;
+
+    return {
+      version: this.configManager.getVersion(),
+      hash: this.configManager.getFingerprint(),
+      loadedAt: this.configManager.getLoadedAt().toISOString(),
+      watching: this.configManager.isWatching(),
+      reloads: [...this.reloads],
     };
   }
 
+  private wrapLogger(logger?: Logger): StructuredLogger {
+    return logger instanceof StructuredLogger ? logger : new StructuredLogger(logger);
+  }
+
+  /**
+   * Built in dependency order so a config the router rejects fails before any
+   * sink starts its flush timer; sinks of a logger that fails are closed.
+   */
+  private buildComponents({ config, dimensions, tiers, models }: ConfigSnapshot): RoutingComponents {
+    const log = this.pluginLogger;
+    const router = new ModelRouter(dimensions, tiers, models, config.models, this.health, log);
+    const directives = new DirectiveParser(config.directives);
+    const sinks = createSinks(config.sinks, log);
+
+    try {
+      const logger = new DecisionLogger(config.log_decisions, config.decision_log, [...sinks, this.metrics, ...this.customSinks], log);
+      return { router, logger, sinks, directives };
+    } catch (error) {
+      void this.retire(null, sinks);
+      throw error;
+    }
+  }
+
+  /** Cache, session and budget settings apply in place, so a reload keeps live sessions, cache counters and spend. */
+  private configureStores(config: PluginConfig): void {
+    this.cache?.configure(
+      config.cache_decisions,
+      config.cache_ttl_seconds || DEFAULT_CACHE_TTL_SECONDS,
+      config.cache_max_entries || DEFAULT_CACHE_MAX_ENTRIES
+    );
+    this.sessions?.configure(config.sticky_sessions, config.session_ttl_seconds || DEFAULT_SESSION_TTL_SECONDS);
+    this.budget?.configure(config.budgets);
+  }
+
+  private install(components: RoutingComponents): void {
+    const previous = { logger: this.logger, sinks: this.sinks };
+
+    this.router = components.router;
+    this.logger = components.logger;
+    this.sinks = components.sinks;
+    this.directives = components.directives;
+    void this.retire(previous.logger, previous.sinks);
+  }
+
+  /** Delivers what a replaced logger still buffers, then stops the sinks it owned. */
+  private async retire(logger: DecisionLogger | null, sinks: DecisionSink[]): Promise<void> {
+    try {
+      await logger?.close();
+      await Promise.all(sinks.map(sink => sink.close?.()));
+    } catch (error) {
+      this.pluginLogger.error('Failed to close decision sinks:', error);
+    }
+  }
+
+  private async serveMetrics({ port, host }: PluginConfig['sinks']['prometheus']): Promise<void> {
+    try {
+      this.metricsServer = await this.metrics.listen(port, host);
+      this.pluginLogger.info(`Serving Prometheus metrics at http://${host}:${port}/metrics`);
+    } catch (error) {
+      this.pluginLogger.error('Failed to start the metrics endpoint:', error);
+    }
+  }
+
+  private recordReload(files: string[], ok: boolean, error?: string): void {
+    this.reloads.push({
+      timestamp: new Date().toISOString(),
+      files,
+      ok,
+      version: this.configManager!.getVersion(),
+      hash: this.configManager!.getFingerprint(),
+      error,
+    });
+    if (this.reloads.length > RELOAD_PARAMS.MAX_EVENTS) this.reloads.shift();
+  }
+
   private isReady(): boolean {
     return this.initialized && !!this.router && !!this.configManager;
   }
 
-  private async performRouting(message: MessageContext) {
-    const preferFree = this.configManager!.getStrategy() === 'cost-optimized';
-    return await this.router!.route(message, preferFree);
+  /** Plugin logger whose lines carry the message id and channel. */
+  private messageLog(message: MessageContext): StructuredLogger {
+    return this.pluginLogger.child({ message_id: message.id, channel: message.channel });
+  }
+
+  private applyDirectives(message: MessageContext): RoutingOverride | undefined {
+    if (!this.directives) return undefined;
+
+    const parsed = this.directives.parse(message.text, message.sender);
+    parsed.rejected.forEach(directive =>
+      this.messageLog(message).warn(`Ignoring directive ${directive} from ${message.sender ?? 'unknown sender'}: not allowed`)
+    );
+    message.text = parsed.text;
+    return parsed.override;
+  }
+
+  private async performRouting(message: MessageContext, override?: RoutingOverride): Promise<RoutingResult> {
+    const startTime = Date.now();
+    const strategy = this.configManager!.getStrategy();
+    const sessionKey = this.sessions?.keyFor(message) ?? null;
+    const lastTurn = this.sessions?.getRecentTurns(sessionKey).pop();
+    const budget = this.budget?.check(message.channel, message.sender) ?? null;
+    const variant = [
+      lastTurn?.tier, lastTurn?.model, budget?.mode, override?.directive, this.router!.cacheVariant(message),
+    ].join(':');
+    // Host token counts, attachments and required capabilities change which models
+    // qualify, so those messages are not cached by text.
+    const cacheable = !message.history?.length && !message.attachments?.length && !message.capabilities?.length &&
+      message.metadata?.conversationTokens === undefined && message.metadata?.attachmentTokens === undefined;
+    const cached = cacheable ? this.cache?.get(message.text, message.channel, strategy, variant) : null;
+
+    if (cached && this.health.isAvailable(cached.fullModel)) {
+      this.sessions?.record(sessionKey, { tier: cached.tier, model: cached.fullModel });
+      return { ...cached, cached: true, executionTimeMs: Date.now() - startTime };
+    }
+
+    const config = this.configManager!.getConfig();
+    const result = await this.router!.route(message, {
+      strategy,
+      lastTurn,
+      budget,
+      timeoutMs: config.timeout_ms || DEFAULT_TIMEOUT_MS,
+      timeoutTier: config.timeout_tier,
+      outputReserveTokens: config.output_reserve_tokens,
+      override,
+    });
+    if (result.timedOut) {
+      this.messageLog(message).warn(`Routing timed out, using default ${result.tier} tier`);
+      return result;
+    }
+
+    if (cacheable) this.cache?.set(message.text, message.channel, strategy, result, variant);
+    this.sessions?.record(sessionKey, { tier: result.tier, model: result.fullModel });
+    return result;
+  }
+
+  private trackPending(message: MessageContext, result: RoutingResult): void {
+    this.pending.delete(message.id);
+    this.pending.set(message.id, {
+      model: result.fullModel,
+      chain: result.fallbackChain,
+      tried: new Set(),
+      channel: message.channel,
+      sender: message.sender,
+    });
+
+    if (this.pending.size > HEALTH_PARAMS.MAX_PENDING_RESULTS) {
+      this.pending.delete(this.pending.keys().next().value as string);
+    }
+  }
+
+  private chargeUsage(
+    channel: string,
+    sender: string | undefined,
+    model: string,
+    inputTokens: number,
+    outputTokens: number
+  ): void {
+    if (!this.budget || !this.router) return;
+    this.budget.charge(channel, sender, this.router.estimateCost(model, inputTokens, outputTokens));
   }
 
-  private async logRoutingDecision(message: MessageContext, result: any) {
+  private async logRoutingDecision(message: MessageContext, result: RoutingResult) {
     if (this.logger) {
-      const reason = `${result.tier} tier detected with ${(result.confidence * 100).toFixed(1)}% confidence`;
-      await this.logger.logDecision(message.id, message.channel, result, reason);
+      const reason = `${result.tier} tier detected with ${(result.confidence * 100).toFixed(1)}% confidence; ${result.strategy}: ${result.strategyReason}`;
+      await this.logger.logDecision(message, result, reason);
     }
   }
 }
@@ -153,20 +481,188 @@ export default function createPlugin(context?: PluginContext): ModelRouterPlugin
 }
 
 if (require.main === module) {
+  const USAGE = [
+    'Usage: node index.js "<prompt>" [--verbose] [--json] [--config <dir>]',
+    '       node index.js bench [--file <texts.txt|corpus.jsonl>] [--iterations <n>] [--json] [--config <dir>]',
+    '       node index.js stats [--since <30m|24h|7d|date>] [--until <date>] [--channel <name>] [--baseline <model>]',
+    '                           [--output-tokens <n>] [--low-confidence <0-1>] [--log-dir <dir>] [--json] [--config <dir>]',
+    '       node index.js replay --file <corpus.jsonl> --base <dir> --candidate <dir> [--samples <n>] [--output-tokens <n>] [--json]',
+    '       node index.js eval --file <fixtures.jsonl> [--min-accuracy <0-1>] [--json] [--config <dir>]',
+    '       node index.js privacy --file <cases.jsonl> [--json] [--config <dir>]',
+    '       node index.js tune --file <fixtures.jsonl> [--max-cost <usd per message>] [--rounds <n>] [--output-tokens <n>]',
+    '                          [--out <dir>] [--json] [--config <dir>]',
+  ].join('\n');
+
+  function getOption(args: string[], name: string): string | undefined {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  }
+
+  function readTexts(file: string): string[] {
+    return readCorpus(file).entries.map(entry => entry.message.text);
+  }
+
+  async function createCliPlugin(args: string[]): Promise<ModelRouterPlugin> {
+    const logger = new StructuredLogger();
+    const plugin = new ModelRouterPlugin(logger);
+    const configPath = getOption(args, '--config');
+    await plugin.init(configPath ? { configPath, logger } : undefined);
+    return plugin;
+  }
+
+  async function runBenchmark(args: string[]) {
+    const plugin = await createCliPlugin(args);
+    const file = getOption(args, '--file');
+    const iterations = parseInt(getOption(args, '--iterations') || '100', 10);
+    const report = plugin.benchmark(file ? readTexts(file) : BENCHMARK_SAMPLES, iterations);
+
+    console.log(args.includes('--json') ? JSON.stringify(report, null, 2) : DimensionBenchmark.format(report));
+  }
+
+  async function runStats(args: string[]) {
+    const { config, tiers, models } = await new ConfigManager(getOption(args, '--config')).read();
+    const registry = new ModelRegistry(models);
+    const baselineModel = getOption(args, '--baseline') || tiers.tiers.PREMIUM.fullPaid;
+    registry.get(baselineModel);
+
+    const since = getOption(args, '--since');
+    const until = getOption(args, '--until');
+    const stats = new DecisionStats(registry, {
+      since: since ? DecisionStats.parseTime(since) : undefined,
+      until: until ? DecisionStats.parseTime(until) : undefined,
+      channel: getOption(args, '--channel'),
+      baselineModel,
+      assumedOutputTokens: parseInt(getOption(args, '--output-tokens') || String(STATS_PARAMS.ASSUMED_OUTPUT_TOKENS), 10),
+      lowConfidence: parseFloat(getOption(args, '--low-confidence') || String(STATS_PARAMS.LOW_CONFIDENCE)),
+    });
+    const logDir = getOption(args, '--log-dir') || config.decision_log.dir;
+    const { decisions, skipped } = new DecisionLogger(false, { dir: logDir }).readAllDecisions();
+    const report = stats.summarize(decisions, skipped);
+
+    console.log(args.includes('--json') ? JSON.stringify(report, null, 2) : DecisionStats.format(report));
+  }
+
+  async function loadRouter(configDir?: string): Promise<Omit<ReplayTarget, 'configDir'>> {
+    const { config, dimensions, tiers, models } = await new ConfigManager(configDir).read();
+    return {
+      router: new ModelRouter(dimensions, tiers, models, config.models),
+      strategy: config.strategy,
+    };
+  }
+
+  async function runReplay(args: string[]) {
+    const file = getOption(args, '--file');
+    const baseDir = getOption(args, '--base');
+    const candidateDir = getOption(args, '--candidate');
+    if (!file || !baseDir || !candidateDir) {
+      console.log(USAGE);
+      process.exit(1);
+    }
+
+    const { entries, skipped } = readCorpus(file);
+    const comparison = new ReplayComparison(
+      { configDir: baseDir, ...await loadRouter(baseDir) },
+      { configDir: candidateDir, ...await loadRouter(candidateDir) },
+      parseInt(getOption(args, '--output-tokens') || String(STATS_PARAMS.ASSUMED_OUTPUT_TOKENS), 10),
+      parseInt(getOption(args, '--samples') || '10', 10)
+    );
+    const report = await comparison.run(entries, skipped);
+
+    console.log(args.includes('--json') ? JSON.stringify(report, null, 2) : ReplayComparison.format(report));
+  }
+
+  async function runEval(args: string[]) {
+    const file = getOption(args, '--file');
+    if (!file) {
+      console.log(USAGE);
+      process.exit(1);
+    }
+
+    const { router, strategy } = await loadRouter(getOption(args, '--config'));
+    const minAccuracy = parseFloat(getOption(args, '--min-accuracy') || String(EVAL_PARAMS.MIN_ACCURACY));
+    const { entries, skipped } = readCorpus(file);
+    const report = await new TierEvaluation(router, strategy, minAccuracy).run(entries, skipped);
+
+    console.log(args.includes('--json') ? JSON.stringify(report, null, 2) : TierEvaluation.format(report));
+    if (!report.passed) process.exitCode = 1;
+  }
+
+  async function runPrivacy(args: string[]) {
+    const file = getOption(args, '--file');
+    if (!file) {
+      console.log(USAGE);
+      process.exit(1);
+    }
+
+    const { config, dimensions, tiers, models } = await new ConfigManager(getOption(args, '--config')).read();
+    const router = new ModelRouter(dimensions, tiers, models, config.models);
+    const report = await new PrivacyCheck(router, config.strategy, config.decision_log, config.budgets).run(readPrivacyCases(file));
+
+    console.log(args.includes('--json') ? JSON.stringify(report, null, 2) : PrivacyCheck.format(report));
+    if (!report.passed) process.exitCode = 1;
+  }
+
+  async function runTune(args: string[]) {
+    const file = getOption(args, '--file');
+    if (!file) {
+      console.log(USAGE);
+      process.exit(1);
+    }
+
+    const configManager = new ConfigManager(getOption(args, '--config'));
+    const snapshot = await configManager.read();
+    const maxCost = getOption(args, '--max-cost');
+    const labeled = readCorpus(file).entries.filter(entry => entry.expected !== undefined);
+    const { report, tiers, dimensions } = await new ConfigTuner(snapshot, labeled, {
+      strategy: snapshot.config.strategy,
+      rounds: parseInt(getOption(args, '--rounds') || String(TUNE_PARAMS.ROUNDS), 10),
+      assumedOutputTokens: parseInt(getOption(args, '--output-tokens') || String(STATS_PARAMS.ASSUMED_OUTPUT_TOKENS), 10),
+      maxCostPerMessage: maxCost ? parseFloat(maxCost) : undefined,
+    }).run();
+
+    const outDir = getOption(args, '--out');
+    if (outDir) writeTunedConfig(configManager.getConfigPath(), outDir, snapshot.models, tiers, dimensions);
+
+    console.log(args.includes('--json') ? JSON.stringify(report, null, 2) : ConfigTuner.format(report));
+    if (outDir) console.log(`\nWrote tuned config to ${path.join(outDir, 'config')}`);
+  }
+
+  function writeTunedConfig(
+    sourceDir: string,
+    outDir: string,
+    models: ModelsConfig,
+    tiers: TiersConfig,
+    dimensions: DimensionsConfig
+  ) {
+    const configDir = path.join(outDir, 'config');
+    const yamlFile = path.join(sourceDir, 'config', 'default.yaml');
+
+    fs.mkdirSync(configDir, { recursive: true });
+    if (fs.existsSync(yamlFile)) fs.copyFileSync(yamlFile, path.join(configDir, 'default.yaml'));
+    fs.writeFileSync(path.join(configDir, 'models.json'), JSON.stringify(models, null, 2) + '\n');
+    fs.writeFileSync(path.join(configDir, 'tiers.json'), JSON.stringify(tiers, null, 2) + '\n');
+    fs.writeFileSync(path.join(configDir, 'dimensions.json'), JSON.stringify(dimensions, null, 2) + '\n');
+  }
+
   async function main() {
     const args = process.argv.slice(2);
     
     if (args.length === 0) {
-      console.log('Usage: node index.js "<prompt>" [--verbose] [--json]');
+      console.log(USAGE);
       process.exit(1);
     }
 
+    if (args[0] === 'bench') return runBenchmark(args.slice(1));
+    if (args[0] === 'stats') return runStats(args.slice(1));
+    if (args[0] === 'replay') return runReplay(args.slice(1));
+    if (args[0] === 'eval') return runEval(args.slice(1));
+    if (args[0] === 'privacy') return runPrivacy(args.slice(1));
+    if (args[0] === 'tune') return runTune(args.slice(1));
+
     const prompt = args[0];
     const verbose = args.includes('--verbose') || args.includes('-v');
 
-    const plugin = new ModelRouterPlugin();
-    await plugin.init();
-
+    const plugin = await createCliPlugin(args);
     const result = await plugin.route(prompt);
     
     if (args.includes('--json')) {
@@ -176,5 +672,8 @@ if (require.main === module) {
     }
   }
 
-  main().catch(console.error);
+  main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  });
 }
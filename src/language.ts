@@ -0,0 +1,74 @@
+import { DetectedLanguage } from './types';
+import { LANGUAGE_PARAMS, SCAN_LIMITS } from './constants';
+
+const SCRIPTS: Array<{ script: string; language?: string; letters: RegExp }> = [
+  { script: 'latin', letters: /[a-z\u00C0-\u024F]/gi },
+  { script: 'sinhala', language: 'si', letters: /[\u0D80-\u0DFF]/g },
+  { script: 'tamil', language: 'ta', letters: /[\u0B80-\u0BFF]/g },
+  { script: 'devanagari', language: 'hi', letters: /[\u0900-\u097F]/g },
+  { script: 'arabic', language: 'ar', letters: /[\u0600-\u06FF]/g },
+  { script: 'cyrillic', language: 'ru', letters: /[\u0400-\u04FF]/g },
+  { script: 'greek', language: 'el', letters: /[\u0370-\u03FF]/g },
+  { script: 'hangul', language: 'ko', letters: /[\uAC00-\uD7AF]/g },
+  { script: 'kana', language: 'ja', letters: /[\u3040-\u30FF]/g },
+  { script: 'han', language: 'zh', letters: /[\u4E00-\u9FFF]/g },
+];
+
+// Function words that are frequent in running text and rare in the other languages.
+const LATIN_STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'to', 'of', 'this', 'that', 'with', 'for', 'how', 'what', 'you', 'it', 'my'],
+  es: ['el', 'los', 'las', 'del', 'que', 'y', 'es', 'en', 'un', 'una', 'por', 'para', 'con', 'cómo', 'qué', 'esta', 'este', 'mi', 'hola', 'gracias'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'mit', 'für', 'wie', 'was', 'ich', 'zu', 'den', 'auf', 'mein', 'hallo', 'danke'],
+  fr: ['le', 'les', 'et', 'est', 'des', 'une', 'pour', 'avec', 'qui', 'dans', 'ce', 'comment', 'mon', 'je', 'bonjour', 'merci'],
+  pt: ['os', 'um', 'não', 'do', 'da', 'como', 'uma', 'em', 'meu', 'você', 'isso', 'olá', 'obrigado'],
+};
+
+const LATIN_MARKERS: Record<string, RegExp> = {
+  es: /[ñ¿¡]/i,
+  de: /[ßäöü]/i,
+  fr: /[çèêœ]/i,
+  pt: /[ãõ]/i,
+};
+
+const CODE_SPANS = /```[\s\S]*?```|`[^`\n]*`/g;
+
+/**
+ * Script and language guess from character ranges, with a stopword vote to
+ * tell Latin-script languages apart. Code spans are ignored so a non-English
+ * request that pastes code is not mistaken for English.
+ */
+export class LanguageDetector {
+  detect(fullText: string): DetectedLanguage {
+    const text = fullText.slice(0, SCAN_LIMITS.MAX_SCAN_CHARS).replace(CODE_SPANS, ' ');
+    const counts = new Map(SCRIPTS.map(({ script, letters }) => [script, (text.match(letters) || []).length]));
+    const dominant = SCRIPTS.reduce((best, candidate) =>
+      counts.get(candidate.script)! > counts.get(best.script)! ? candidate : best
+    );
+
+    if (counts.get(dominant.script) === 0) {
+      return { code: LANGUAGE_PARAMS.UNDETERMINED, script: 'none', source: 'detected' };
+    }
+    if (dominant.script === 'han' && counts.get('kana')! > 0) {
+      return { code: 'ja', script: 'han', source: 'detected' };
+    }
+
+    return { code: dominant.language ?? this.guessLatin(text), script: dominant.script, source: 'detected' };
+  }
+
+  private guessLatin(text: string): string {
+    const words = text.toLowerCase().match(/[a-z\u00C0-\u024F]+/g) || [];
+    let best: string = LANGUAGE_PARAMS.DEFAULT;
+    let bestVotes = 0;
+
+    Object.entries(LATIN_STOPWORDS).forEach(([language, stopwords]) => {
+      const marker = LATIN_MARKERS[language];
+      const votes = words.filter(word => stopwords.includes(word)).length + (marker?.test(text) ? 2 : 0);
+      if (votes > bestVotes) {
+        best = language;
+        bestVotes = votes;
+      }
+    });
+
+    return best;
+  }
+}
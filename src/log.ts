@@ -0,0 +1,94 @@
+import { LogFields, LogFormat, Logger, LogLevel } from './types';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const TEXT_PREFIX = '[ModelRouter]';
+
+interface LogSettings {
+  level: LogLevel;
+  format: LogFormat;
+}
+
+/**
+ * Leveled logger that writes through the host's logger, or the console when
+ * there is none. Lines below `log_level` are dropped; in `json` format each
+ * line is one JSON object carrying the logger's fields, so host log pipelines
+ * can correlate everything logged for a message by `message_id`. Children
+ * share their parent's settings, so a config reload reaches them too.
+ */
+export class StructuredLogger implements Logger {
+  constructor(
+    private output?: Logger,
+    private settings: LogSettings = { level: 'info', format: 'text' },
+    private fields: LogFields = {}
+  ) {}
+
+  configure(level: LogLevel, format: LogFormat): void {
+    this.settings.level = level;
+    this.settings.format = format;
+  }
+
+  /** A logger that adds `fields` to every line, sharing this logger's output and settings. */
+  child(fields: LogFields): StructuredLogger {
+    return new StructuredLogger(this.output, this.settings, { ...this.fields, ...fields });
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LEVEL_ORDER[level] >= LEVEL_ORDER[this.settings.level];
+  }
+
+  debug(message: string, ...args: any[]): void {
+    this.write('debug', message, args);
+  }
+
+  info(message: string, ...args: any[]): void {
+    this.write('info', message, args);
+  }
+
+  warn(message: string, ...args: any[]): void {
+    this.write('warn', message, args);
+  }
+
+  error(message: string, ...args: any[]): void {
+    this.write('error', message, args);
+  }
+
+  private write(level: LogLevel, message: string, args: any[]): void {
+    if (!this.isEnabled(level)) return;
+
+    if (this.settings.format === 'json') {
+      this.emit(level, [JSON.stringify(this.toRecord(level, message, args))]);
+      return;
+    }
+
+    const context = Object.entries(this.fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}=${value}`)
+      .join(' ');
+    const line = context ? `${message} [${context}]` : message;
+    this.emit(level, this.output ? [line, ...args] : [`${TEXT_PREFIX} [${level.toUpperCase()}]`, line, ...args]);
+  }
+
+  private emit(level: LogLevel, [first, ...rest]: [string, ...any[]]): void {
+    const output: Logger = this.output ?? console;
+    output[level](first, ...rest);
+  }
+
+  private toRecord(level: LogLevel, message: string, args: any[]): Record<string, unknown> {
+    const record: Record<string, unknown> = {
+      time: new Date().toISOString(),
+      level,
+      logger: 'model-router',
+      msg: message,
+      ...this.fields,
+    };
+
+    const error = args.find((arg): arg is Error => arg instanceof Error);
+    const extra = args.filter(arg => !(arg instanceof Error));
+    if (error) {
+      record.error = error.message;
+      record.stack = error.stack;
+    }
+    if (extra.length > 0) record.args = extra;
+    return record;
+  }
+}
@@ -1,32 +1,72 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { DecisionLog, RoutingResult } from './types';
-import { LOG_FILE_MAX_SIZE } from './constants';
+import * as zlib from 'zlib';
+import { createHash } from 'crypto';
+import { pipeline } from 'stream/promises';
+import { DecisionLog, DecisionLogConfig, DecisionSink, Logger, MessageContext, RoutingResult } from './types';
+import { Redactor } from './redaction';
+import { JsonlFileSink } from './sinks';
+import { StructuredLogger } from './log';
+import { LOG_FILE_MAX_SIZE, LOG_RETENTION_CHECK_MS, SCAN_LIMITS } from './constants';
 
+const DEFAULT_LOG_DIR = path.join(process.env.HOME!, '.openclaw', 'logs', 'model-router');
+const ARCHIVE_NAME = /^decisions-.+\.jsonl(\.gz)?$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Builds one entry per routing decision and hands it to the sinks: the local
+ * JSONL file when enabled, plus any metrics or network sinks. Message text and
+ * sender ids are only included when enabled, and pass through redaction and
+ * hashing first; rotated archives are gzipped and pruned by age and count.
+ */
 export class DecisionLogger {
   private logDir: string;
   private logFile: string;
+  private redactor: Redactor;
+  private file: JsonlFileSink | null = null;
+  private sinks: DecisionSink[];
+  private lastPrune = 0;
 
-  constructor(private enabled: boolean = true) {
-    this.logDir = path.join(process.env.HOME!, '.openclaw', 'logs', 'model-router');
+  constructor(
+    enabled: boolean = true,
+    private settings: Partial<DecisionLogConfig> = {},
+    sinks: DecisionSink[] = [],
+    private log: Logger = new StructuredLogger()
+  ) {
+    this.logDir = this.resolveDir(settings.dir);
     this.logFile = path.join(this.logDir, 'decisions.jsonl');
+    this.redactor = new Redactor(settings.redact ?? []);
     
-    if (this.enabled) this.ensureLogDir();
+    if (enabled) {
+      this.ensureLogDir();
+      this.file = new JsonlFileSink(this.logFile, log);
+    }
+    this.sinks = this.file ? [this.file, ...sinks] : [...sinks];
+  }
+
+  async logDecision(message: MessageContext, result: RoutingResult, reason: string): Promise<void> {
+    if (this.sinks.length === 0) return;
+
+    const entry = this.createLogEntry(message, result, reason);
+    this.sinks.forEach(sink => this.deliver(sink, entry));
+  }
+
+  addSink(sink: DecisionSink): void {
+    this.sinks.push(sink);
   }
 
-  async logDecision(
-    messageId: string,
-    channel: string,
-    result: RoutingResult,
-    reason: string
-  ): Promise<void> {
-    if (!this.enabled) return;
+  async flush(): Promise<void> {
+    await Promise.all(this.sinks.map(sink => sink.flush()));
+  }
 
-    const log = this.createLogEntry(messageId, channel, result, reason);
-    this.writeLog(log);
+  /** Flushes every sink and stops the file writer; other sinks are closed by their owner. */
+  async close(): Promise<void> {
+    await this.flush();
+    await this.file?.close();
   }
 
   async getRecentDecisions(limit: number = 20): Promise<DecisionLog[]> {
+    await this.file?.flush();
     if (!fs.existsSync(this.logFile)) return [];
 
     try {
@@ -34,64 +74,151 @@ export class DecisionLogger {
       const lines = content.trim().split('\n').filter(line => line.length > 0);
       return lines.slice(-limit).map(line => JSON.parse(line));
     } catch (error) {
-      console.error('Failed to read decision log:', error);
+      this.log.error('Failed to read decision log:', error);
       return [];
     }
   }
 
+  /** Rotated archives oldest first, followed by the current log. */
+  listLogFiles(): string[] {
+    return [...this.listArchives(), this.logFile].filter(file => fs.existsSync(file));
+  }
+
+  readAllDecisions(): { decisions: DecisionLog[]; skipped: number } {
+    const decisions: DecisionLog[] = [];
+    let skipped = 0;
+
+    this.listLogFiles().forEach(file => {
+      const raw = fs.readFileSync(file);
+      const content = file.endsWith('.gz') ? zlib.gunzipSync(raw).toString('utf8') : raw.toString('utf8');
+      content.split('\n').forEach(line => {
+        if (line.trim().length === 0) return;
+        try {
+          decisions.push(JSON.parse(line));
+        } catch {
+          skipped++;
+        }
+      });
+    });
+
+    return { decisions, skipped };
+  }
+
   async rotateLogIfNeeded(): Promise<void> {
     if (!fs.existsSync(this.logFile)) return;
 
     try {
       const stats = fs.statSync(this.logFile);
       if (stats.size > LOG_FILE_MAX_SIZE) {
-        this.rotateLog();
+        await this.rotateLog();
+        this.lastPrune = 0;
+      }
+      if (Date.now() - this.lastPrune > LOG_RETENTION_CHECK_MS) {
+        this.pruneArchives();
+        this.lastPrune = Date.now();
       }
     } catch (error) {
-      console.error('Failed to rotate log file:', error);
+      this.log.error('Failed to rotate log file:', error);
     }
   }
 
+  private resolveDir(dir?: string): string {
+    if (!dir) return DEFAULT_LOG_DIR;
+    return path.resolve(dir.startsWith('~') ? path.join(process.env.HOME!, dir.slice(1)) : dir);
+  }
+
+  private listArchives(): string[] {
+    if (!fs.existsSync(this.logDir)) return [];
+
+    return fs.readdirSync(this.logDir)
+      .filter(name => ARCHIVE_NAME.test(name))
+      .sort()
+      .map(name => path.join(this.logDir, name));
+  }
+
   private ensureLogDir(): void {
     if (!fs.existsSync(this.logDir)) {
       fs.mkdirSync(this.logDir, { recursive: true });
     }
   }
 
-  private createLogEntry(
-    messageId: string,
-    channel: string,
-    result: RoutingResult,
-    reason: string
-  ): DecisionLog {
+  private createLogEntry(message: MessageContext, result: RoutingResult, reason: string): DecisionLog {
     return {
       timestamp: new Date().toISOString(),
-      message_id: messageId,
-      channel,
+      message_id: message.id,
+      channel: message.channel,
+      sender: this.settings.include_sender && message.sender ? this.senderId(message.sender) : undefined,
+      text: this.settings.include_text ? this.snippet(message.text) : undefined,
       complexity: result.tier,
-      scores: { [result.model]: 1.0 },
+      confidence: result.confidence,
+      runner_up_tier: result.runnerUpTier,
+      escalation: result.escalation,
+      language: result.language.code,
+      estimated_tokens: result.estimatedTokens,
+      context_stepped_from: result.context.steppedFrom,
+      required_capabilities: result.capabilities?.required.map(({ capability }) => capability),
+      capability_stepped_from: result.capabilities?.steppedFrom,
+      scores: Object.fromEntries(result.rankedModels.map(ranked => [ranked.model, ranked.score])),
       selected_model: result.fullModel,
       selection_reason: reason,
+      strategy: result.strategy,
+      strategy_reason: result.strategyReason,
+      fallback_chain: result.fallbackChain,
+      session: result.session,
+      budget: result.budget,
+      timed_out: result.timedOut,
+      cached: result.cached,
+      fired_rules: result.firedRules,
+      override: result.override,
       execution_time_ms: result.executionTimeMs || 0,
       total_score: result.totalScore,
       dimension_scores: result.scores,
     };
   }
 
-  private writeLog(log: DecisionLog): void {
+  private deliver(sink: DecisionSink, entry: DecisionLog): void {
     try {
-      fs.appendFileSync(this.logFile, JSON.stringify(log) + '\n', 'utf8');
+      sink.write(entry);
     } catch (error) {
-      console.error('Failed to write decision log:', error);
+      this.log.error('Decision sink failed:', error);
     }
   }
 
-  private rotateLog(): void {
+  private snippet(text: string): string {
+    const redacted = this.redactor.redact(text.slice(0, SCAN_LIMITS.MAX_SCAN_CHARS));
+    const limit = this.settings.text_max_chars ?? redacted.length;
+    return redacted.length > limit ? `${redacted.slice(0, limit)}…` : redacted;
+  }
+
+  private senderId(sender: string): string {
+    if (!this.settings.hash_senders) return sender;
+    const digest = createHash('sha256').update(`${this.settings.hash_salt ?? ''}${sender}`).digest('hex');
+    return `sha256:${digest.slice(0, 16)}`;
+  }
+
+  private async rotateLog(): Promise<void> {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
     const archiveName = `decisions-${timestamp}.jsonl`;
     const archivePath = path.join(this.logDir, archiveName);
     
+    await this.file?.flush();
     fs.renameSync(this.logFile, archivePath);
-    console.log(`Rotated log file to ${archiveName}`);
+    if (this.settings.compress_archives) {
+      await pipeline(fs.createReadStream(archivePath), zlib.createGzip(), fs.createWriteStream(`${archivePath}.gz`));
+      fs.unlinkSync(archivePath);
+    }
+    this.log.info(`Rotated log file to ${archiveName}${this.settings.compress_archives ? '.gz' : ''}`);
+  }
+
+  /** Drops archives older than `max_age_days`, then the oldest beyond `max_archives`. */
+  private pruneArchives(): void {
+    const { max_archives, max_age_days } = this.settings;
+    const cutoff = max_age_days !== undefined ? Date.now() - max_age_days * DAY_MS : -Infinity;
+    const archives = this.listArchives();
+    const expired = archives.filter(file => fs.statSync(file).mtimeMs < cutoff);
+    const kept = archives.filter(file => !expired.includes(file));
+    const excess = max_archives !== undefined ? kept.slice(0, Math.max(kept.length - max_archives, 0)) : [];
+
+    [...expired, ...excess].forEach(file => fs.unlinkSync(file));
   }
 }
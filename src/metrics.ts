@@ -0,0 +1,119 @@
+import * as http from 'http';
+import { DecisionLog, DecisionSink } from './types';
+import { LATENCY_BUCKETS_SECONDS } from './constants';
+
+type Labels = Record<string, string>;
+
+class Counter {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(private name: string, private help: string) {}
+
+  inc(labels: Labels): void {
+    const key = JSON.stringify(labels);
+    const current = this.values.get(key) ?? { labels, value: 0 };
+    current.value++;
+    this.values.set(key, current);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+    ];
+  }
+}
+
+class Histogram {
+  private series = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(private name: string, private help: string, private bounds: number[]) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = JSON.stringify(labels);
+    const series = this.series.get(key) ?? { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) series.buckets[index]++;
+    });
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+
+    this.series.forEach(({ labels, buckets, sum, count }) => {
+      this.bounds.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    });
+
+    return lines;
+  }
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels)
+    .map(([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * In-memory counters and histograms over logged decisions, rendered in the
+ * Prometheus text exposition format. Routing latency only counts cache misses,
+ * since hits skip routing and are counted on their own.
+ */
+export class PrometheusMetrics implements DecisionSink {
+  private routes = new Counter('model_router_routes_total', 'Routing decisions by tier, model and channel.');
+  private cacheHits = new Counter('model_router_cache_hits_total', 'Decisions served from the decision cache.');
+  private timeouts = new Counter('model_router_timeouts_total', 'Routings that hit the deadline and used the timeout tier.');
+  private latency = new Histogram(
+    'model_router_routing_duration_seconds',
+    'Time spent routing a message (cache misses).',
+    LATENCY_BUCKETS_SECONDS
+  );
+
+  write(entry: DecisionLog): void {
+    const { channel } = entry;
+    this.routes.inc({ tier: entry.complexity, model: entry.selected_model, channel });
+    if (entry.timed_out) this.timeouts.inc({ channel });
+    if (entry.cached) {
+      this.cacheHits.inc({ channel });
+    } else {
+      this.latency.observe({ tier: entry.complexity }, entry.execution_time_ms / 1000);
+    }
+  }
+
+  async flush(): Promise<void> {}
+
+  render(): string {
+    return [
+      ...this.routes.render(),
+      ...this.cacheHits.render(),
+      ...this.timeouts.render(),
+      ...this.latency.render(),
+    ].join('\n') + '\n';
+  }
+
+  /** Serves `render()` at `GET /metrics` for Prometheus to scrape. */
+  listen(port: number, host: string): Promise<http.Server> {
+    const server = http.createServer((request, response) => {
+      if (request.method !== 'GET' || request.url?.split('?')[0] !== '/metrics') {
+        response.writeHead(404).end();
+        return;
+      }
+      response.writeHead(200, { 'content-type': 'text/plain; version=0.0.4; charset=utf-8' }).end(this.render());
+    });
+    server.unref();
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve(server));
+    });
+  }
+}
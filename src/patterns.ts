@@ -0,0 +1,58 @@
+import { CompiledDimension, Dimension } from './types';
+
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*(?:[+*]|\{\d+,\d*\})(?:[^()\\]|\\.)*\)(?:[+*]|\{\d+,\d*\})/;
+const QUANTIFIED_ALTERNATION = /\((?:[^()\\]|\\.)*\|(?:[^()\\]|\\.)*\)(?:[+*]|\{\d+,\d*\})/;
+const BACKREFERENCE = /\\[1-9]/;
+
+export class PatternCompiler {
+  compile(dimensions: Dimension[]): CompiledDimension[] {
+    const errors: string[] = [];
+    const compiled = dimensions.map(dimension => ({
+      name: dimension.name,
+      weight: dimension.weight,
+      max: dimension.max || 3,
+      patterns: this.compileList(dimension.patterns || [], dimension.name, errors),
+      patternsByLang: Object.fromEntries(Object.entries(dimension.patterns_by_lang || {}).map(([language, patterns]) =>
+        [language, this.compileList(patterns, `${dimension.name}.${language}`, errors)]
+      )),
+    }));
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid dimension patterns:\n  ${errors.join('\n  ')}`);
+    }
+    return compiled;
+  }
+
+  compilePattern(pattern: string, location: string): RegExp {
+    const unsafe = this.findUnsafeConstruct(pattern);
+    if (unsafe) throw new Error(`${location} "${pattern}": ${unsafe}`);
+
+    try {
+      return new RegExp(pattern, 'i');
+    } catch (error) {
+      throw new Error(`${location} "${pattern}": ${(error as Error).message}`);
+    }
+  }
+
+  private compileList(patterns: string[], location: string, errors: string[]): RegExp[] {
+    return patterns
+      .map((pattern, index) => this.tryCompile(pattern, `${location}[${index}]`, errors))
+      .filter((regex): regex is RegExp => regex !== null);
+  }
+
+  private tryCompile(pattern: string, location: string, errors: string[]): RegExp | null {
+    try {
+      return this.compilePattern(pattern, location);
+    } catch (error) {
+      errors.push((error as Error).message);
+      return null;
+    }
+  }
+
+  private findUnsafeConstruct(pattern: string): string | null {
+    if (NESTED_QUANTIFIER.test(pattern)) return 'nested quantifier can cause catastrophic backtracking';
+    if (QUANTIFIED_ALTERNATION.test(pattern)) return 'quantified alternation can cause catastrophic backtracking';
+    if (BACKREFERENCE.test(pattern)) return 'backreferences are not allowed';
+    return null;
+  }
+}
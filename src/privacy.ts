@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import {
+  BudgetConfig,
+  BudgetConstraint,
+  DecisionLog,
+  DecisionLogConfig,
+  PrivacyCase,
+  PrivacyFailure,
+  PrivacyReport,
+  RoutingStrategy
+} from './types';
+import { ModelRouter } from './router';
+import { DecisionLogger } from './logger';
+import { BudgetLedger } from './budget';
+
+/**
+ * Checks what the decision log records for sample messages. Each case is
+ * routed and shaped into a log entry with the configured `decision_log`
+ * settings plus the case's overrides; the listed fields must match exactly,
+ * `null` requires the field to be left out, and no `excludes` string may
+ * appear anywhere in the entry. A case's `budget` caps and `spent_usd` put the
+ * sender over budget first, and `strategy` replaces the configured one.
+ * Nothing is written to disk.
+ */
+export class PrivacyCheck {
+  constructor(
+    private router: ModelRouter,
+    private strategy: RoutingStrategy,
+    private settings: DecisionLogConfig,
+    private budgets: BudgetConfig
+  ) {}
+
+  async run(cases: PrivacyCase[]): Promise<PrivacyReport> {
+    const failures: PrivacyFailure[] = [];
+
+    for (const privacyCase of cases) {
+      const { message, expected, excludes = [] } = privacyCase;
+      const entry = await this.entryFor(privacyCase);
+      Object.entries(expected).forEach(([field, value]) => {
+        const actual = entry[field as keyof DecisionLog] ?? null;
+        if (JSON.stringify(actual) !== JSON.stringify(value)) {
+          failures.push({ id: message.id, field, expected: value, actual });
+        }
+      });
+
+      const serialized = JSON.stringify(entry);
+      excludes
+        .filter(text => serialized.includes(text))
+        .forEach(text => failures.push({ id: message.id, field: '*', expected: `no ${JSON.stringify(text)}`, actual: 'found' }));
+    }
+
+    return { cases: cases.length, failures, passed: cases.length > 0 && failures.length === 0 };
+  }
+
+  static format(report: PrivacyReport): string {
+    const lines = [`Checked ${report.cases} decision-log cases`];
+
+    report.failures.forEach(failure => {
+      lines.push(`  ${failure.id}.${failure.field}: expected ${JSON.stringify(failure.expected)}, got ${JSON.stringify(failure.actual)}`);
+    });
+
+    lines.push('', report.passed ? 'PASS' : `FAIL: ${report.failures.length} field(s) differ`);
+    return lines.join('\n');
+  }
+
+  private async entryFor({ message, settings: overrides = {}, budget, strategy }: PrivacyCase): Promise<DecisionLog> {
+    const result = await this.router.route({ ...message }, {
+      strategy: strategy ?? this.strategy,
+      timeoutMs: Infinity,
+      budget: budget ? this.overBudget(message, budget) : null,
+    });
+    const entries: DecisionLog[] = [];
+    const capture = { write: (entry: DecisionLog) => entries.push(entry), flush: async () => {} };
+
+    await new DecisionLogger(false, { ...this.settings, ...overrides }, [capture])
+      .logDecision(message, result, result.strategyReason);
+    return entries[0];
+  }
+
+  private overBudget(message: PrivacyCase['message'], budget: NonNullable<PrivacyCase['budget']>): BudgetConstraint | null {
+    const { spent_usd: spent = 0, ...caps } = budget;
+    const ledger = new BudgetLedger({ ...this.budgets, ...caps, enabled: true }, undefined, null);
+    ledger.charge(message.channel, message.sender, spent);
+    return ledger.check(message.channel, message.sender);
+  }
+}
+
+/**
+ * Reads JSONL cases: "text", optional "sender" and "channel", "decision_log"
+ * overrides, "budget" caps with "spent_usd", "strategy", "expected" fields and
+ * "excludes".
+ */
+export function readPrivacyCases(file: string): PrivacyCase[] {
+  return fs.readFileSync(file, 'utf8').split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map((line, index) => {
+      const parsed = JSON.parse(line);
+      if (typeof parsed.text !== 'string' || !parsed.expected || typeof parsed.expected !== 'object') {
+        throw new Error(`${file}: case ${index + 1} needs "text" and an "expected" object`);
+      }
+      return {
+        message: {
+          id: parsed.id || `case-${index + 1}`,
+          text: parsed.text,
+          channel: parsed.channel || 'default',
+          sender: parsed.sender,
+        },
+        settings: parsed.decision_log,
+        budget: parsed.budget,
+        strategy: parsed.strategy,
+        expected: parsed.expected,
+        excludes: parsed.excludes,
+      };
+    });
+}
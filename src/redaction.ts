@@ -0,0 +1,36 @@
+import { RedactionKind } from './types';
+
+// Applied in this order so a token's digits are not mistaken for a phone number.
+const REDACTIONS: Array<{ kind: RedactionKind; pattern: RegExp; accept?: (match: string) => boolean }> = [
+  { kind: 'email', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  {
+    kind: 'token',
+    pattern: /\b(?:sk|pk|rk|ghp|gho|ghs|xox[abps])[-_][\w-]{10,}|\bBearer\s+[\w.~+/-]+=*|\beyJ[\w-]+\.[\w-]+\.[\w-]+|\b[\w-]{32,}\b/g,
+    accept: match => !/^[\w-]{32,}$/.test(match) || (/\d/.test(match) && /[a-z]/i.test(match)),
+  },
+  {
+    kind: 'phone',
+    pattern: /\+?\(?\d[\d\s().-]{6,}\d/g,
+    accept: match => {
+      const digits = match.replace(/\D/g, '').length;
+      return digits >= 9 && digits <= 15;
+    },
+  },
+];
+
+/**
+ * Masks personal data in text before it is written anywhere. Long opaque
+ * strings only count as tokens when they mix letters and digits, and digit
+ * runs only count as phone numbers at 9-15 digits, so dates and short numbers
+ * in prompts survive.
+ */
+export class Redactor {
+  constructor(private kinds: RedactionKind[]) {}
+
+  redact(text: string): string {
+    return REDACTIONS
+      .filter(({ kind }) => this.kinds.includes(kind))
+      .reduce((redacted, { kind, pattern, accept }) =>
+        redacted.replace(pattern, match => !accept || accept(match) ? `[${kind}]` : match), text);
+  }
+}
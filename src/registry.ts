@@ -0,0 +1,86 @@
+import { ModelConfig, ModelsConfig, ModelPricing } from './types';
+import { BUDGET_PARAMS, MODEL_CAPABILITIES, TOKENIZER_PROFILES } from './constants';
+
+const SPEEDS = ['fast', 'medium', 'slow'];
+
+export class ModelRegistry {
+  constructor(private config: ModelsConfig) {
+    this.validate();
+  }
+
+  get(model: string): ModelConfig {
+    const entry = this.config.models[model];
+    if (!entry) throw new Error(`Unknown model "${model}": add it to models.json`);
+    return entry;
+  }
+
+  has(model: string): boolean {
+    return model in this.config.models;
+  }
+
+  isFree(model: string): boolean {
+    return this.get(model).cost === 0;
+  }
+
+  getPricing(model: string): ModelPricing {
+    const entry = this.get(model);
+    return entry.pricing || { input: entry.cost, output: entry.cost };
+  }
+
+  estimateCost(model: string, inputTokens: number, outputTokens: number = 0): number {
+    const pricing = this.getPricing(model);
+    return (inputTokens * pricing.input + outputTokens * pricing.output) / BUDGET_PARAMS.TOKENS_PER_PRICE_UNIT;
+  }
+
+  list(): string[] {
+    return Object.keys(this.config.models);
+  }
+
+  private validate(): void {
+    if (!this.config?.models || typeof this.config.models !== 'object') {
+      throw new Error('models.json: "models" must be an object keyed by model id');
+    }
+
+    const errors = Object.entries(this.config.models).flatMap(([id, model]) => this.validateModel(id, model));
+    if (errors.length > 0) {
+      throw new Error(`Invalid models.json:\n  ${errors.join('\n  ')}`);
+    }
+  }
+
+  private validateModel(id: string, model: ModelConfig): string[] {
+    const errors: string[] = [];
+
+    if (typeof model.provider !== 'string' || model.provider.length === 0) {
+      errors.push(`${id}.provider must be a non-empty string`);
+    }
+    if (!this.isNonNegative(model.cost)) errors.push(`${id}.cost must be a non-negative number`);
+    if (!this.isNonNegative(model.contextWindow) || model.contextWindow === 0) {
+      errors.push(`${id}.contextWindow must be a positive number`);
+    }
+    if (!Array.isArray(model.specialties)) errors.push(`${id}.specialties must be an array`);
+    if (!SPEEDS.includes(model.speed)) errors.push(`${id}.speed must be one of ${SPEEDS.join(', ')}`);
+    if (!this.isUnitInterval(model.quality)) errors.push(`${id}.quality must be between 0 and 1`);
+    if (!this.isUnitInterval(model.reliability)) errors.push(`${id}.reliability must be between 0 and 1`);
+    if (model.pricing && !(this.isNonNegative(model.pricing.input) && this.isNonNegative(model.pricing.output))) {
+      errors.push(`${id}.pricing.input and pricing.output must be non-negative numbers`);
+    }
+    if (model.tokenizer !== undefined && !(model.tokenizer in TOKENIZER_PROFILES)) {
+      errors.push(`${id}.tokenizer must be one of ${Object.keys(TOKENIZER_PROFILES).join(', ')}`);
+    }
+    const capabilities = model.capabilities;
+    if (capabilities !== undefined &&
+        !(Array.isArray(capabilities) && capabilities.every(capability => MODEL_CAPABILITIES.includes(capability)))) {
+      errors.push(`${id}.capabilities must be a list of ${MODEL_CAPABILITIES.join(', ')}`);
+    }
+
+    return errors;
+  }
+
+  private isNonNegative(value: unknown): boolean {
+    return typeof value === 'number' && value >= 0;
+  }
+
+  private isUnitInterval(value: unknown): boolean {
+    return typeof value === 'number' && value >= 0 && value <= 1;
+  }
+}
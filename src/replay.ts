@@ -0,0 +1,109 @@
+import { CorpusEntry, ReplayReport, ReplaySample, RoutingResult, RoutingStrategy } from './types';
+import { ModelRouter } from './router';
+import { ConfusionMatrix } from './confusion';
+
+const SAMPLE_TEXT_LENGTH = 120;
+
+export interface ReplayTarget {
+  configDir: string;
+  router: ModelRouter;
+  strategy: RoutingStrategy;
+}
+
+/**
+ * Routes the same corpus through two configurations and reports where they
+ * disagree. Each message is routed on its own, without sessions, budgets or
+ * the routing deadline, so differences come from the configs alone.
+ */
+export class ReplayComparison {
+  constructor(
+    private base: ReplayTarget,
+    private candidate: ReplayTarget,
+    private assumedOutputTokens: number,
+    private maxSamples: number
+  ) {}
+
+  async run(entries: CorpusEntry[], skipped: number = 0): Promise<ReplayReport> {
+    const confusion = new ConfusionMatrix();
+    const samples: ReplaySample[] = [];
+    let tierChanges = 0;
+    let modelChanges = 0;
+    let baseUsd = 0;
+    let candidateUsd = 0;
+
+    for (const { message } of entries) {
+      const before = await this.route(this.base, message);
+      const after = await this.route(this.candidate, message);
+
+      confusion.add(before.tier, after.tier);
+      baseUsd += this.costOf(this.base, before);
+      candidateUsd += this.costOf(this.candidate, after);
+      if (before.fullModel !== after.fullModel) modelChanges++;
+      if (before.tier === after.tier) continue;
+
+      tierChanges++;
+      if (samples.length < this.maxSamples) {
+        samples.push({
+          text: message.text.length > SAMPLE_TEXT_LENGTH ? `${message.text.slice(0, SAMPLE_TEXT_LENGTH)}…` : message.text,
+          channel: message.channel,
+          base: { tier: before.tier, model: before.fullModel },
+          candidate: { tier: after.tier, model: after.fullModel },
+        });
+      }
+    }
+
+    return {
+      messages: entries.length,
+      skipped,
+      baseConfig: this.base.configDir,
+      candidateConfig: this.candidate.configDir,
+      tierChanges,
+      modelChanges,
+      confusion: confusion.toJSON(),
+      cost: {
+        assumedOutputTokens: this.assumedOutputTokens,
+        baseUsd,
+        candidateUsd,
+        deltaUsd: candidateUsd - baseUsd,
+      },
+      samples,
+    };
+  }
+
+  static format(report: ReplayReport): string {
+    const rate = (count: number) => report.messages > 0 ? ((count / report.messages) * 100).toFixed(1) : '0.0';
+    const { cost } = report;
+    const lines = [
+      `Replayed ${report.messages} messages${report.skipped > 0 ? ` (${report.skipped} lines skipped)` : ''}`,
+      `  base:      ${report.baseConfig}`,
+      `  candidate: ${report.candidateConfig}`,
+      '',
+      `Tier changed:  ${report.tierChanges} (${rate(report.tierChanges)}%)`,
+      `Model changed: ${report.modelChanges} (${rate(report.modelChanges)}%)`,
+      '',
+      ...ConfusionMatrix.format(report.confusion, 'base', 'candidate'),
+      '',
+      `Estimated cost (assuming ${cost.assumedOutputTokens} output tokens each):`,
+      `  base:      $${cost.baseUsd.toFixed(4)}`,
+      `  candidate: $${cost.candidateUsd.toFixed(4)}`,
+      `  delta:     ${cost.deltaUsd >= 0 ? '+' : '-'}$${Math.abs(cost.deltaUsd).toFixed(4)}`,
+    ];
+
+    if (report.samples.length > 0) {
+      lines.push('', 'Messages that changed tier:');
+      report.samples.forEach(sample => {
+        lines.push(`  [${sample.channel}] ${sample.base.tier} → ${sample.candidate.tier}: ${sample.text}`);
+      });
+    }
+
+    return lines.join('\n');
+  }
+
+  private route(target: ReplayTarget, message: CorpusEntry['message']): Promise<RoutingResult> {
+    return target.router.route({ ...message }, { strategy: target.strategy, timeoutMs: Infinity });
+  }
+
+  private costOf(target: ReplayTarget, result: RoutingResult): number {
+    return target.router.estimateCost(result.fullModel, result.estimatedTokens, this.assumedOutputTokens);
+  }
+}
@@ -3,48 +3,264 @@ import {
   DimensionScore, 
   ModelScores, 
   RoutingResult,
+  BenchmarkReport,
+  CapabilityFit,
+  ContextFit,
   MessageContext,
   TiersConfig,
-  DimensionsConfig
+  DimensionsConfig,
+  CompiledDimension,
+  DetectedLanguage,
+  ModelsConfig,
+  PluginConfig,
+  RankedModel,
+  RouteOptions,
+  BudgetConstraint,
+  SessionContinuity,
+  SessionTurn,
+  RuleMatch,
+  RoutingOverride,
+  StrategyDecision,
+  TierEscalation,
+  TierRanking
 } from './types';
 import { MessageClassifier } from './classifiers';
 import { ModelScorer } from './scorer';
-import { SIGMOID_PARAMS } from './constants';
+import { StrategyPolicy } from './strategy';
+import { ModelRegistry } from './registry';
+import { CandidateRanker } from './candidates';
+import { HealthTracker } from './health';
+import { PatternCompiler } from './patterns';
+import { RoutingTimeoutError } from './errors';
+import { DimensionBenchmark } from './benchmark';
+import { TierRuleEngine } from './rules';
+import { LanguageDetector } from './language';
+import { StructuredLogger } from './log';
+import { PromptSize, TokenEstimator } from './tokens';
+import { CapabilityDetector, MessageRequirements } from './capabilities';
+import {
+  CONFIDENCE_PARAMS,
+  ESCALATION_ORDER,
+  SESSION_PARAMS,
+  BUDGET_PARAMS,
+  SCAN_LIMITS,
+  TOKEN_PARAMS,
+  DEFAULT_TIMEOUT_MS
+} from './constants';
 
 export class ModelRouter {
   private classifier: MessageClassifier;
   private scorer: ModelScorer;
+  private policy: StrategyPolicy;
+  private ranker: CandidateRanker;
+  private registry: ModelRegistry;
+  private compiledDimensions: CompiledDimension[];
+  private rules: TierRuleEngine;
+  private detector: LanguageDetector;
+  private tokens: TokenEstimator;
+  private capabilities: CapabilityDetector;
 
   constructor(
-    private dimensions: DimensionsConfig,
-    private tiers: TiersConfig
+    dimensions: DimensionsConfig,
+    private tiers: TiersConfig,
+    models: ModelsConfig,
+    pools: PluginConfig['models'],
+    health?: HealthTracker,
+    private log: StructuredLogger = new StructuredLogger()
   ) {
-    this.classifier = new MessageClassifier();
-    this.scorer = new ModelScorer();
+    const registry = new ModelRegistry(models);
+    this.registry = registry;
+    this.compiledDimensions = new PatternCompiler().compile(dimensions.dimensions);
+    this.rules = new TierRuleEngine(tiers, this.compiledDimensions.map(dimension => dimension.name), registry);
+    this.tokens = new TokenEstimator();
+    this.capabilities = new CapabilityDetector();
+    this.classifier = new MessageClassifier(this.tokens);
+    this.detector = new LanguageDetector();
+    this.scorer = new ModelScorer(registry);
+    this.policy = new StrategyPolicy(tiers, this.scorer);
+    this.ranker = new CandidateRanker(tiers, pools, registry, this.scorer, health);
   }
 
-  async route(message: MessageContext, preferFree: boolean = true): Promise<RoutingResult> {
+  async route(message: MessageContext, options: RouteOptions = {}): Promise<RoutingResult> {
     const startTime = Date.now();
-    const dimensionScores = this.calculateDimensionScores(message.text);
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const language = this.detectLanguage(message);
+    const localized = { ...message, language: language.code };
+    const log = this.log.child({ message_id: message.id, channel: message.channel });
+    const reserve = options.outputReserveTokens ?? TOKEN_PARAMS.OUTPUT_RESERVE_TOKENS;
+    const needs = new MessageRequirements(
+      new PromptSize(localized, this.registry, this.tokens, reserve),
+      this.capabilities.detect(localized),
+      this.registry
+    );
+
+    try {
+      const result = this.routeWithin(localized, language, needs, options, startTime, startTime + timeoutMs);
+      this.trace(log, result);
+      return result;
+    } catch (error) {
+      if (!(error instanceof RoutingTimeoutError)) throw error;
+      log.debug(`Scoring exceeded ${timeoutMs}ms, falling back to the timeout tier`);
+      return this.timeoutResult(localized, language, needs, options, startTime, timeoutMs);
+    }
+  }
+
+  /** Debug line with why the tier was chosen; skipped entirely above debug level. */
+  private trace(log: StructuredLogger, result: RoutingResult): void {
+    if (!log.isEnabled('debug')) return;
+
+    const escalation = result.escalation ? `, escalated from ${result.escalation.from}` : '';
+    const required = result.capabilities?.required.map(({ capability }) => capability).join(', ');
+    log.debug(
+      `Detected ${result.tier} (${result.language.code}) with ${(result.confidence * 100).toFixed(1)}% confidence, ` +
+      `runner-up ${result.runnerUpTier ?? 'none'}${escalation}; rules: ${result.firedRules.join(', ') || 'none'}` +
+      (required ? `; requires: ${required}` : '')
+    );
+  }
+
+  private routeWithin(
+    message: MessageContext,
+    language: DetectedLanguage,
+    needs: MessageRequirements,
+    options: RouteOptions,
+    startTime: number,
+    deadline: number
+  ): RoutingResult {
+    const { strategy = 'cost-optimized', lastTurn, budget, override } = options;
+    const dimensionScores = this.calculateDimensionScores(message.text, message.language, deadline);
     const totalScore = this.sumScores(dimensionScores);
-    const tier = this.determineComplexityTier(dimensionScores, totalScore);
-    const selection = this.selectModel(tier, preferFree);
+    const features = this.classifier.extractFeatures(message.text, message.language);
+    const match = this.rules.evaluate({ scores: dimensionScores, totalScore, features, message });
+    const confidence = this.calculateConfidence(match);
+    const ruleModel = override ? undefined : match.model;
+    const escalation = override || ruleModel ? undefined : this.escalate(match, confidence);
+    const detectedTier = escalation?.to ?? match.tier;
+    const session = override?.model || override?.tier || ruleModel
+      ? undefined
+      : this.resolveContinuity(
+        message,
+        detectedTier,
+        escalation ? match.tier : match.runnerUp?.tier,
+        confidence,
+        !escalation && match.fallback,
+        deadline,
+        lastTurn?.tier
+      );
+    const tier = override?.tier ?? (session?.held ? session.previousTier : detectedTier);
+    const ranking = this.createRanking(dimensionScores, totalScore, message, needs);
+    const { decision, steppedFrom, cause } = this.fitRequirements(
+      this.enforceBudget(
+        this.applyOverride(tier, ranking, override) ?? (ruleModel
+          ? this.forcedModel(match)
+          : this.keepSessionModel(
+            this.policy.apply(strategy, tier, dimensionScores, totalScore, confidence, ranking),
+            ranking,
+            session,
+            lastTurn
+          )),
+        ranking,
+        budget
+      ),
+      needs,
+      !!override?.model || !!ruleModel,
+      next => this.policy.apply(strategy, next, dimensionScores, totalScore, confidence, ranking)
+    );
+    const firedRules = [override?.tier ? undefined : match.tierRule, ruleModel ? match.modelRule : undefined]
+      .filter((name): name is string => !!name);
+    const rankedModels = ranking(decision.tier);
+    const selection = this.selectModel(decision.tier, decision.model, rankedModels, needs);
 
     return {
       ...selection,
-      confidence: this.calculateConfidence(totalScore),
+      confidence,
+      runnerUpTier: match.runnerUp?.tier,
+      escalation,
+      language,
+      context: this.contextFit(decision, needs.prompt, cause === 'context' ? steppedFrom : undefined),
+      capabilities: this.capabilityFit(decision, needs, cause === 'capability' ? steppedFrom : undefined),
       totalScore,
       scores: dimensionScores,
+      rankedModels,
+      strategy,
+      strategyReason: decision.reason,
+      session,
+      budget: budget || undefined,
+      estimatedTokens: needs.prompt.tokensFor(decision.model),
+      firedRules,
+      override,
       executionTimeMs: Date.now() - startTime,
     };
   }
 
+  private timeoutResult(
+    message: MessageContext,
+    language: DetectedLanguage,
+    needs: MessageRequirements,
+    options: RouteOptions,
+    startTime: number,
+    timeoutMs: number
+  ): RoutingResult {
+    const { strategy = 'cost-optimized', budget, override } = options;
+    const timeoutTier = override?.tier ?? options.timeoutTier ?? 'COMPLEX';
+    const ranking = this.createRanking({}, 0, message, needs);
+    const { decision, steppedFrom, cause } = this.fitRequirements(
+      this.enforceBudget(
+        this.applyOverride(timeoutTier, ranking, override) ??
+          this.policy.apply(strategy, timeoutTier, {}, 0, 0, ranking),
+        ranking,
+        budget
+      ),
+      needs,
+      !!override?.model,
+      next => this.policy.apply(strategy, next, {}, 0, 0, ranking)
+    );
+    const rankedModels = ranking(decision.tier);
+
+    return {
+      ...this.selectModel(decision.tier, decision.model, rankedModels, needs),
+      confidence: 0,
+      language,
+      context: this.contextFit(decision, needs.prompt, cause === 'context' ? steppedFrom : undefined),
+      capabilities: this.capabilityFit(decision, needs, cause === 'capability' ? steppedFrom : undefined),
+      totalScore: 0,
+      scores: {},
+      rankedModels,
+      strategy,
+      strategyReason: `routing exceeded ${timeoutMs}ms deadline, default ${timeoutTier} tier used; ${decision.reason}`,
+      budget: budget || undefined,
+      estimatedTokens: needs.prompt.tokensFor(decision.model),
+      firedRules: [],
+      override,
+      timedOut: true,
+      executionTimeMs: Date.now() - startTime,
+    };
+  }
+
+  /** Message fields besides text and channel that can change the decision; see TierRuleEngine.conditionKey. */
+  cacheVariant(message: MessageContext): string {
+    return [message.language, this.rules.conditionKey(message)].join(':');
+  }
+
+  benchmarkDimensions(texts: string[], iterations: number): BenchmarkReport {
+    const samples = texts.map(text => ({
+      text: text.slice(0, SCAN_LIMITS.MAX_SCAN_CHARS),
+      language: this.detector.detect(text).code,
+    }));
+    return new DimensionBenchmark(this.compiledDimensions).run(samples, iterations);
+  }
+
+  estimateCost(model: string, inputTokens: number, outputTokens: number = 0): number {
+    return this.registry.estimateCost(model, inputTokens, outputTokens);
+  }
+
   async scoreModels(message: MessageContext, availableModels: string[]): Promise<ModelScores> {
-    const dimensionScores = this.calculateDimensionScores(message.text);
+    const localized = { ...message, language: this.detectLanguage(message).code };
+    const dimensionScores = this.calculateDimensionScores(message.text, localized.language);
     const totalScore = this.sumScores(dimensionScores);
+    const prompt = new PromptSize(localized, this.registry, this.tokens);
 
     return availableModels.reduce((scores, model) => {
-      scores[model] = this.scorer.calculateScore(model, dimensionScores, totalScore, message);
+      scores[model] = this.scorer.calculateScore(model, dimensionScores, totalScore, localized, prompt.tokensFor(model));
       return scores;
     }, {} as ModelScores);
   }
@@ -56,64 +272,300 @@ export class ModelRouter {
       `**Tier:** ${result.tier}`,
       `**Model:** \`${result.model}\`${verbose ? ` (full: \`${result.fullModel}\`)` : ''}`,
       `**Confidence:** ${(result.confidence * 100).toFixed(1)}%`,
+      `**Language:** ${result.language.code} (${result.language.script})`,
     ];
 
     if (result.fallback) lines.push(`**Fallback:** \`${result.fallback}\``);
     lines.push(`**Why:** ${result.description}`);
+    if (result.override) lines.push(`**Override:** ${result.override.directive}`);
+    if (result.firedRules.length > 0) lines.push(`**Rules:** ${result.firedRules.join(', ')}`);
+    if (result.runnerUpTier) lines.push(`**Runner-up:** ${result.runnerUpTier}`);
+    if (result.escalation) {
+      const { from, to, confidence, minConfidence } = result.escalation;
+      lines.push(`**Escalated:** ${from} → ${to} (confidence ${(confidence * 100).toFixed(1)}% below ${(minConfidence * 100).toFixed(1)}%)`);
+    }
+    if (result.context.steppedFrom || result.context.excluded.length > 0 || verbose) {
+      const { promptTokens, reserveTokens, contextWindow, excluded, steppedFrom } = result.context;
+      const notes = [
+        excluded.length > 0 ? `too small: ${excluded.map(model => this.shortName(result.tier, model)).join(', ')}` : '',
+        steppedFrom ? `stepped up from ${steppedFrom}` : '',
+      ].filter(note => note);
+      lines.push(
+        `**Context:** ~${promptTokens} prompt + ${reserveTokens} reserved of ${contextWindow} tokens` +
+        (notes.length > 0 ? ` (${notes.join('; ')})` : '')
+      );
+    }
+    if (result.capabilities) {
+      const { required, excluded, unmet, steppedFrom } = result.capabilities;
+      const notes = [
+        excluded.length > 0 ? `lacking: ${excluded.map(model => this.shortName(result.tier, model)).join(', ')}` : '',
+        steppedFrom ? `stepped up from ${steppedFrom}` : '',
+        unmet.length > 0 ? `unmet: ${unmet.join(', ')}` : '',
+      ].filter(note => note);
+      lines.push(
+        `**Capabilities:** ${required.map(({ capability, source }) => `${capability} (${source})`).join(', ')}` +
+        (notes.length > 0 ? ` (${notes.join('; ')})` : '')
+      );
+    }
+    if (result.session?.held) {
+      lines.push(`**Session:** kept ${result.session.previousTier} (detected ${result.session.detectedTier})`);
+    }
+    lines.push(`**Strategy:** ${result.strategy} (${result.strategyReason})`);
 
     if (verbose) {
       this.appendDimensionScores(lines, result);
+      this.appendRankedModels(lines, result);
       this.appendExecutionTime(lines, result);
     }
 
     return lines.join('\n');
   }
 
-  private calculateDimensionScores(text: string): DimensionScore {
-    return this.dimensions.dimensions.reduce((scores, dimension) => {
+  private calculateDimensionScores(text: string, language?: string, deadline: number = Infinity): DimensionScore {
+    const scanned = text.slice(0, SCAN_LIMITS.MAX_SCAN_CHARS);
+
+    return this.compiledDimensions.reduce((scores, dimension) => {
+      if (Date.now() > deadline) throw new RoutingTimeoutError(deadline);
       scores[dimension.name] = dimension.name === 'length'
         ? this.classifier.scoreLength(text, dimension.weight)
-        : this.classifier.scoreDimension(text, dimension);
+        : this.classifier.scoreDimension(scanned, dimension, language);
       return scores;
     }, {} as DimensionScore);
   }
 
+  /** A language set by the host wins; otherwise it is detected from the text. */
+  private detectLanguage(message: MessageContext): DetectedLanguage {
+    const detected = this.detector.detect(message.text);
+    return message.language ? { ...detected, code: message.language, source: 'message' } : detected;
+  }
+
   private sumScores(scores: DimensionScore): number {
     return Object.values(scores).reduce((sum, score) => sum + score, 0);
   }
 
-  private determineComplexityTier(scores: DimensionScore, totalScore: number): ComplexityLevel {
-    const t = this.tiers.thresholds;
+  /**
+   * A conversation keeps its tier unless the message clearly argues for
+   * another one. Short follow-ups ("now make it faster") reach SIMPLE through
+   * fallback rules with near-certain confidence, so those never switch it.
+   * Otherwise the tier is only held when the conversation's tier was the
+   * runner-up and lost by a small margin; confidence measures the margin over
+   * the runner-up, so a clear poem request beating a weak SIMPLE signal still
+   * switches even at low confidence.
+   */
+  private resolveContinuity(
+    message: MessageContext,
+    detectedTier: ComplexityLevel,
+    runnerUpTier: ComplexityLevel | undefined,
+    confidence: number,
+    fallback: boolean,
+    deadline: number,
+    sessionTier?: ComplexityLevel
+  ): SessionContinuity | undefined {
+    const previousTier = sessionTier ?? this.classifyHistory(message, deadline);
+    if (!previousTier) return undefined;
+
+    return {
+      previousTier,
+      detectedTier,
+      held: previousTier !== detectedTier
+        && (fallback || (runnerUpTier === previousTier && confidence < SESSION_PARAMS.SWITCH_CONFIDENCE)),
+      source: sessionTier ? 'session' : 'history',
+    };
+  }
+
+  /**
+   * Below the configured floor the tier choice is too close to call, so the
+   * more capable of the winning and runner-up tiers is used instead.
+   */
+  private escalate(match: RuleMatch, confidence: number): TierEscalation | undefined {
+    const policy = this.tiers.escalation;
+    if (!policy?.enabled || !match.runnerUp || confidence >= policy.min_confidence) return undefined;
+
+    const order = policy.order ?? ESCALATION_ORDER;
+    if (order.indexOf(match.runnerUp.tier) <= order.indexOf(match.tier)) return undefined;
+    return { from: match.tier, to: match.runnerUp.tier, confidence, minConfidence: policy.min_confidence };
+  }
+
+  /**
+   * When the chosen model cannot hold the prompt plus the output reserve, or
+   * lacks a capability the message needs, no model in its tier qualifies
+   * (rankings drop the ones that do not), so this steps up the escalation
+   * order to the first tier that has one. If none does, the largest window
+   * (preferring models with the capabilities) is the best that can be done.
+   * Models named by a directive or rule are left alone.
+   */
+  private fitRequirements(
+    decision: StrategyDecision,
+    needs: MessageRequirements,
+    pinned: boolean,
+    reroute: (tier: ComplexityLevel) => StrategyDecision
+  ): { decision: StrategyDecision; steppedFrom?: ComplexityLevel; cause?: 'context' | 'capability' } {
+    if (pinned || needs.accepts(decision.model)) return { decision };
+
+    const { prompt } = needs;
+    const capable = this.ranker.candidatesFor(decision.tier).some(model => needs.supports(model));
+    const cause = capable ? 'context' : 'capability';
+    const size = `~${prompt.tokensFor(decision.model)} prompt tokens + ${prompt.reserveTokens} reserved`;
+    const shortfall = capable
+      ? `${size} exceed the ${decision.tier} models' context windows`
+      : `no ${decision.tier} model supports ${needs.describe()}`;
+    const order = this.tiers.escalation?.order ?? ESCALATION_ORDER;
+    const higher = order.slice(order.indexOf(decision.tier) + 1);
+    const next = higher.find(tier => this.ranker.canServe(tier, needs));
+
+    if (!next) {
+      const largest = this.ranker.largestContext([decision.tier, ...higher], needs);
+      return {
+        decision: { ...largest, reason: `${shortfall} and no higher tier qualifies, using the largest window` },
+        steppedFrom: largest.tier === decision.tier ? undefined : decision.tier,
+        cause,
+      };
+    }
+
+    const stepped = reroute(next);
+    return { decision: { ...stepped, reason: `${stepped.reason}; ${shortfall}` }, steppedFrom: decision.tier, cause };
+  }
+
+  private contextFit({ tier, model }: StrategyDecision, prompt: PromptSize, steppedFrom?: ComplexityLevel): ContextFit {
+    return {
+      promptTokens: prompt.tokensFor(model),
+      reserveTokens: prompt.reserveTokens,
+      contextWindow: this.registry.get(model).contextWindow,
+      excluded: this.ranker.candidatesFor(tier).filter(candidate => !prompt.fits(candidate)),
+      steppedFrom,
+    };
+  }
+
+  private capabilityFit(
+    { tier, model }: StrategyDecision,
+    needs: MessageRequirements,
+    steppedFrom?: ComplexityLevel
+  ): CapabilityFit | undefined {
+    if (needs.required.length === 0) return undefined;
+
+    return {
+      required: needs.required,
+      excluded: this.ranker.candidatesFor(tier).filter(candidate => !needs.supports(candidate)),
+      unmet: needs.missing(model),
+      steppedFrom,
+    };
+  }
+
+  private forcedModel(match: RuleMatch): StrategyDecision {
+    return { tier: match.tier, model: match.model!, reason: `model forced by rule ${match.modelRule}` };
+  }
+
+  private applyOverride(
+    tier: ComplexityLevel,
+    ranking: TierRanking,
+    override?: RoutingOverride
+  ): StrategyDecision | null {
+    if (override?.model) return { tier, model: override.model, reason: `${override.directive} directive` };
+    if (!override?.cheap) return null;
+
+    const cheapTier = tier === 'PREMIUM' ? BUDGET_PARAMS.DOWNGRADE_TIER : tier;
+    const cheapest = ranking(cheapTier).reduce((best, candidate) =>
+      this.priceOf(candidate.model) < this.priceOf(best.model) ? candidate : best
+    );
+    return { tier: cheapTier, model: cheapest.model, reason: `${override.directive} directive, cheapest candidate` };
+  }
+
+  private priceOf(model: string): number {
+    const pricing = this.registry.getPricing(model);
+    return pricing.input + pricing.output;
+  }
+
+  private keepSessionModel(
+    decision: StrategyDecision,
+    ranking: TierRanking,
+    session?: SessionContinuity,
+    lastTurn?: SessionTurn
+  ): StrategyDecision {
+    if (!session?.held || !lastTurn || lastTurn.model === decision.model) return decision;
 
-    if (scores.reasoning >= t.REASONING_TRIGGER) return 'REASONING';
-    if (scores.code >= t.CODING_TRIGGER) return 'CODING';
-    if (scores.creative >= t.CREATIVE_TRIGGER) return 'CREATIVE';
-    if (scores.multistep >= (t.MULTISTEP_TRIGGER || 0.10)) return 'COMPLEX';
-    if (scores.simple >= 0.10 && totalScore < 0.30) return 'SIMPLE';
-    if (totalScore < t.SIMPLE_MAX) return 'SIMPLE';
-    if (totalScore >= t.PREMIUM_MIN) return 'PREMIUM';
-    if (totalScore >= t.COMPLEX_MIN) return 'COMPLEX';
+    const ranked = ranking(decision.tier);
+    const chosen = ranked.find(candidate => candidate.model === decision.model)!;
+    const previous = ranked.find(candidate => candidate.model === lastTurn.model);
+    if (!previous || previous.free !== chosen.free) return decision;
 
-    return 'COMPLEX';
+    return { ...decision, model: previous.model, reason: `${decision.reason}, kept session model` };
   }
 
-  private selectModel(tier: ComplexityLevel, preferFree: boolean) {
+  private enforceBudget(
+    decision: StrategyDecision,
+    ranking: TierRanking,
+    budget?: BudgetConstraint | null
+  ): StrategyDecision {
+    if (!budget) return decision;
+
+    const wasFree = this.registry.isFree(decision.model);
+    const tier = decision.tier === 'PREMIUM' ? BUDGET_PARAMS.DOWNGRADE_TIER : decision.tier;
+    const ranked = ranking(tier);
+    const preferred = budget.mode === 'free-only'
+      ? ranked.find(candidate => candidate.free)
+      : ranked.find(candidate => candidate.model === decision.model) ?? ranked.find(candidate => candidate.free === wasFree);
+    const model = (preferred ?? ranked[0]).model;
+
+    if (tier === decision.tier && model === decision.model) return decision;
+    return { tier, model, reason: `${decision.reason}; budget ${budget.mode}: ${budget.reason}` };
+  }
+
+  private classifyHistory(message: MessageContext, deadline: number): ComplexityLevel | undefined {
+    if (!message.history?.length) return undefined;
+
+    const text = message.history.slice(-SESSION_PARAMS.HISTORY_WINDOW).join('\n');
+    const scores = this.calculateDimensionScores(text, message.language, deadline);
+    return this.rules.evaluate({
+      scores,
+      totalScore: this.sumScores(scores),
+      features: this.classifier.extractFeatures(text, message.language),
+      message: { ...message, text },
+    }).tier;
+  }
+
+  private createRanking(
+    dimensionScores: DimensionScore,
+    totalScore: number,
+    message: MessageContext,
+    needs: MessageRequirements
+  ): TierRanking {
+    const ranked = new Map<ComplexityLevel, RankedModel[]>();
+
+    return (tier: ComplexityLevel) => {
+      if (!ranked.has(tier)) {
+        ranked.set(tier, this.ranker.rank(tier, dimensionScores, totalScore, message, needs));
+      }
+      return ranked.get(tier)!;
+    };
+  }
+
+  private selectModel(tier: ComplexityLevel, model: string, rankedModels: RankedModel[], needs: MessageRequirements) {
     const tierConfig = this.tiers.tiers[tier];
-    const useFree = preferFree && tierConfig.free;
+    const fallbackChain = this.ranker.fallbackChain(tier, model, rankedModels, needs);
+    const fallback = fallbackChain[0];
 
     return {
       tier,
-      model: useFree ? tierConfig.free! : tierConfig.paid,
-      fullModel: useFree ? tierConfig.fullFree! : tierConfig.fullPaid,
-      fallback: useFree ? tierConfig.paid : null,
-      fullFallback: useFree ? tierConfig.fullPaid : null,
+      model: this.shortName(tier, model),
+      fullModel: model,
+      fallback: fallback ? this.shortName(tier, fallback) : null,
+      fullFallback: fallback || null,
+      fallbackChain,
       description: tierConfig.description,
     };
   }
 
-  private calculateConfidence(totalScore: number): number {
-    const { K, MIDPOINT } = SIGMOID_PARAMS;
-    return 1 / (1 + Math.exp(-K * (totalScore - MIDPOINT)));
+  private shortName(tier: ComplexityLevel, model: string): string {
+    const tierConfig = this.tiers.tiers[tier];
+    if (model === tierConfig.fullFree && tierConfig.free) return tierConfig.free;
+    if (model === tierConfig.fullPaid) return tierConfig.paid;
+    return model.split('/').pop()!.replace(/:free$/, '');
+  }
+
+  private calculateConfidence(match: RuleMatch): number {
+    const { K, NO_RUNNER_UP } = CONFIDENCE_PARAMS;
+    const margin = match.strength - (match.runnerUp?.strength ?? NO_RUNNER_UP);
+    return 1 / (1 + Math.exp(-K * margin));
   }
 
   private appendDimensionScores(lines: string[], result: RoutingResult): void {
@@ -130,6 +582,16 @@ export class ModelRouter {
     lines.push(`  • **total**: ${result.totalScore.toFixed(4)}`);
   }
 
+  private appendRankedModels(lines: string[], result: RoutingResult): void {
+    if (result.rankedModels.length === 0) return;
+
+    lines.push('', '**Candidate Models:**');
+    result.rankedModels.forEach(({ model, score }) => {
+      const marker = model === result.fullModel ? ' ✓' : '';
+      lines.push(`  • ${model}: ${score.toFixed(4)}${marker}`);
+    });
+  }
+
   private appendExecutionTime(lines: string[], result: RoutingResult): void {
     if (result.executionTimeMs !== undefined) {
       lines.push('', `**Execution Time:** ${result.executionTimeMs}ms`);
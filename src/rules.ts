@@ -0,0 +1,234 @@
+import {
+  ComplexityLevel,
+  MessageContext,
+  MessageFeatures,
+  RuleCondition,
+  RuleInput,
+  RuleMatch,
+  TierRule,
+  TierSignal,
+  TiersConfig
+} from './types';
+import { PatternCompiler } from './patterns';
+import { ModelRegistry } from './registry';
+import { DEFAULT_TIER_RULES, THRESHOLD_DEFAULTS, SCAN_LIMITS, CONFIDENCE_PARAMS } from './constants';
+
+const FEATURE_NAMES: Array<keyof MessageFeatures> = [
+  'tokenCount', 'hasCode', 'hasMath', 'isQuestion', 'technicalTerms', 'questionMarks',
+  'codeBlockCount', 'imperativeStart', 'hasConstraints', 'hasReference', 'hasNegation', 'hasStackTrace',
+];
+const CONDITION_KEYS = ['dimensions', 'total', 'features', 'channel', 'sender', 'metadata', 'text'];
+const OPERATORS = ['>', '>=', '<', '<=', '=='];
+const ANY_VALUE = '*';
+
+interface ConditionResult {
+  ok: boolean;
+  margin: number;
+}
+
+/**
+ * Evaluates the ordered `rules` list from tiers.json. Rules are checked top to
+ * bottom; the first match with a `then.tier` decides the tier, and the first
+ * match with a `then.model` seen up to that point forces the model. Every tier
+ * rule is still scored so the closest competing tier can be reported.
+ */
+export class TierRuleEngine {
+  private rules: TierRule[];
+  private textPatterns = new Map<TierRule, RegExp>();
+  private defaultTier: ComplexityLevel;
+  private usesSender: boolean;
+  private metadataKeys: string[];
+
+  constructor(
+    private tiers: TiersConfig,
+    dimensionNames: string[],
+    registry: ModelRegistry
+  ) {
+    this.rules = tiers.rules || DEFAULT_TIER_RULES;
+    this.defaultTier = tiers.default_tier || 'COMPLEX';
+    this.validate(dimensionNames, registry);
+    this.usesSender = this.rules.some(rule => rule.when.sender !== undefined);
+    this.metadataKeys = [...new Set(this.rules.flatMap(rule => Object.keys(rule.when.metadata || {})))];
+  }
+
+  /**
+   * The message fields other than text and channel that some rule looks at:
+   * the sender and referenced metadata values. Results cached by text must
+   * include them, or a sender-scoped rule's decision is served to others.
+   */
+  conditionKey(message: MessageContext): string {
+    return JSON.stringify([
+      this.usesSender ? message.sender ?? null : null,
+      ...this.metadataKeys.map(key => message.metadata?.[key] ?? null),
+    ]);
+  }
+
+  evaluate(input: RuleInput): RuleMatch {
+    let modelRule: TierRule | undefined;
+    let decided: { rule: TierRule; strength: number } | undefined;
+    const signals = new Map<ComplexityLevel, number>();
+
+    for (const rule of this.rules) {
+      const { matched, strength } = this.assess(rule, input);
+
+      if (!decided && matched && rule.then.model && !modelRule) modelRule = rule;
+      if (!rule.then.tier) continue;
+      if (!decided && matched) decided = { rule, strength };
+      signals.set(rule.then.tier, Math.max(strength, signals.get(rule.then.tier) ?? -Infinity));
+    }
+
+    const tier = decided?.rule.then.tier ?? this.defaultTier;
+    return {
+      tier,
+      tierRule: decided?.rule.name,
+      model: modelRule?.then.model,
+      modelRule: modelRule?.name,
+      strength: decided?.strength ?? 0,
+      runnerUp: this.runnerUp(signals, tier),
+      fallback: !decided || decided.rule.fallback === true,
+    };
+  }
+
+  /** Best signal among the tiers that did not win; ties go to the earlier rule. */
+  private runnerUp(signals: Map<ComplexityLevel, number>, winner: ComplexityLevel): TierSignal | undefined {
+    let best: TierSignal | undefined;
+    signals.forEach((strength, tier) => {
+      if (tier !== winner && (!best || strength > best.strength)) best = { tier, strength };
+    });
+    return best;
+  }
+
+  /**
+   * A rule's strength is its weakest condition: numeric comparisons give the
+   * signed distance past (or short of) their threshold relative to it, clamped
+   * to [-1, 1]; channel, sender, metadata, text and exact matches count as ±1.
+   */
+  private assess(rule: TierRule, input: RuleInput): { matched: boolean; strength: number } {
+    const { when } = rule;
+    const { message } = input;
+    const results: ConditionResult[] = [];
+
+    if (when.channel !== undefined) results.push(this.exact(this.oneOf(message.channel, when.channel)));
+    if (when.sender !== undefined) results.push(this.exact(this.oneOf(message.sender, when.sender)));
+    if (when.metadata) results.push(this.exact(this.matchesMetadata(message.metadata, when.metadata)));
+    if (when.total !== undefined) results.push(...this.compare(input.totalScore, when.total));
+
+    Object.entries(when.dimensions || {})
+      .forEach(([name, condition]) => results.push(...this.compare(input.scores[name] || 0, condition)));
+    Object.entries(when.features || {})
+      .forEach(([name, condition]) => results.push(...this.compare(input.features[name as keyof MessageFeatures], condition!)));
+
+    const pattern = this.textPatterns.get(rule);
+    if (pattern) results.push(this.exact(pattern.test(message.text.slice(0, SCAN_LIMITS.MAX_SCAN_CHARS))));
+
+    const matched = results.every(result => result.ok);
+    const weakest = Math.min(1, ...results.map(result => result.margin));
+    return { matched, strength: matched ? Math.max(weakest, 0) : Math.min(weakest, 0) };
+  }
+
+  private compare(value: number | boolean, condition: RuleCondition): ConditionResult[] {
+    if (typeof condition !== 'object') return [this.exact(value === condition)];
+
+    return Object.entries(condition).map(([op, expected]) => {
+      const actual = Number(value);
+      const target = this.resolveValue(expected!);
+      const distance = (actual - target) / Math.max(Math.abs(target), CONFIDENCE_PARAMS.MIN_SCALE);
+      const margin = Math.max(-1, Math.min(1, op.startsWith('<') ? -distance : distance));
+      switch (op) {
+        case '>': return { ok: actual > target, margin };
+        case '>=': return { ok: actual >= target, margin };
+        case '<': return { ok: actual < target, margin };
+        case '<=': return { ok: actual <= target, margin };
+        default: return this.exact(actual === target);
+      }
+    });
+  }
+
+  private exact(ok: boolean): ConditionResult {
+    return { ok, margin: ok ? 1 : -1 };
+  }
+
+  private resolveValue(value: number | string): number {
+    if (typeof value === 'number') return value;
+    return (this.tiers.thresholds as Record<string, number | undefined>)[value] ?? THRESHOLD_DEFAULTS[value];
+  }
+
+  private oneOf(actual: string | undefined, expected: string | string[]): boolean {
+    if (actual === undefined) return false;
+    return Array.isArray(expected) ? expected.includes(actual) : actual === expected;
+  }
+
+  private matchesMetadata(metadata: Record<string, any> | undefined, expected: Record<string, unknown>): boolean {
+    return Object.entries(expected).every(([key, value]) => {
+      if (!metadata || !(key in metadata)) return false;
+      if (value === ANY_VALUE) return true;
+      return Array.isArray(value) ? value.includes(metadata[key]) : metadata[key] === value;
+    });
+  }
+
+  private validate(dimensionNames: string[], registry: ModelRegistry): void {
+    const tierNames = Object.keys(this.tiers.tiers);
+    const compiler = new PatternCompiler();
+    const errors: string[] = [];
+
+    if (!Array.isArray(this.rules)) {
+      throw new Error('Invalid tiers.json:\n  rules: must be an array');
+    }
+    if (!tierNames.includes(this.defaultTier)) {
+      errors.push(`default_tier: unknown tier "${this.defaultTier}"`);
+    }
+
+    this.rules.forEach((rule, index) => {
+      const label = `rules[${index}]${rule.name ? ` (${rule.name})` : ''}`;
+      const when = rule.when || {};
+      const then = rule.then || {};
+
+      if (!rule.name) errors.push(`${label}.name: required`);
+      if (Object.keys(when).length === 0) errors.push(`${label}.when: at least one condition required`);
+      Object.keys(when)
+        .filter(key => !CONDITION_KEYS.includes(key))
+        .forEach(key => errors.push(`${label}.when.${key}: unknown condition, expected one of ${CONDITION_KEYS.join(', ')}`));
+
+      if (!then.tier && !then.model) errors.push(`${label}.then: needs a tier or a model`);
+      if (rule.fallback !== undefined && typeof rule.fallback !== 'boolean') errors.push(`${label}.fallback: must be a boolean`);
+      if (then.tier && !tierNames.includes(then.tier)) errors.push(`${label}.then.tier: unknown tier "${then.tier}"`);
+      if (then.model && !registry.has(then.model)) errors.push(`${label}.then.model: "${then.model}" is not in models.json`);
+
+      Object.entries(when.dimensions || {}).forEach(([name, condition]) => {
+        if (!dimensionNames.includes(name)) errors.push(`${label}.when.dimensions.${name}: unknown dimension`);
+        this.checkCondition(`${label}.when.dimensions.${name}`, condition, errors);
+      });
+      Object.entries(when.features || {}).forEach(([name, condition]) => {
+        if (!FEATURE_NAMES.includes(name as keyof MessageFeatures)) errors.push(`${label}.when.features.${name}: unknown feature`);
+        this.checkCondition(`${label}.when.features.${name}`, condition!, errors);
+      });
+      if (when.total !== undefined) this.checkCondition(`${label}.when.total`, when.total, errors);
+
+      if (when.text !== undefined) {
+        try {
+          this.textPatterns.set(rule, compiler.compilePattern(when.text, `${label}.when.text`));
+        } catch (error) {
+          errors.push((error as Error).message);
+        }
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid tiers.json:\n  ${errors.join('\n  ')}`);
+    }
+  }
+
+  private checkCondition(location: string, condition: RuleCondition, errors: string[]): void {
+    if (typeof condition !== 'object') return;
+
+    Object.entries(condition).forEach(([op, value]) => {
+      if (!OPERATORS.includes(op)) {
+        errors.push(`${location}: operators must be one of ${OPERATORS.join(' ')}`);
+      } else if (typeof value === 'string' && this.resolveValue(value) === undefined) {
+        errors.push(`${location}.${op}: unknown threshold "${value}"`);
+      } else if (typeof value !== 'string' && typeof value !== 'number') {
+        errors.push(`${location}.${op}: must be a number or a threshold name`);
+      }
+    });
+  }
+}
@@ -1,21 +1,21 @@
 import { DimensionScore, MessageContext } from './types';
-import { 
-  DIMENSION_WEIGHTS, 
-  CONTEXT_WINDOW_SIZES, 
-  MODEL_QUALITY_SCORES 
-} from './constants';
+import { ModelRegistry } from './registry';
+import { DIMENSION_WEIGHTS, GATEWAY_PROVIDERS, STRATEGY_PARAMS, LANGUAGE_PARAMS } from './constants';
 
 export class ModelScorer {
+  constructor(private registry: ModelRegistry) {}
+
   calculateScore(
     model: string,
     dimensionScores: DimensionScore,
     totalScore: number,
-    message: MessageContext
+    message: MessageContext,
+    promptTokens: number
   ): number {
     return (
       this.scoreCost(model, totalScore) * DIMENSION_WEIGHTS.COST_EFFICIENCY +
       this.scoreSuitability(model, dimensionScores) * DIMENSION_WEIGHTS.TASK_SUITABILITY +
-      this.scoreContext(model, message) * DIMENSION_WEIGHTS.CONTEXT_WINDOW +
+      this.scoreContext(model, promptTokens) * DIMENSION_WEIGHTS.CONTEXT_WINDOW +
       this.scoreSpeed(model, totalScore) * DIMENSION_WEIGHTS.SPEED +
       this.scoreQuality(model, totalScore) * DIMENSION_WEIGHTS.QUALITY +
       this.scoreReliability(model) * DIMENSION_WEIGHTS.RELIABILITY +
@@ -30,6 +30,14 @@ export class ModelScorer {
     );
   }
 
+  fitsContext(model: string, promptTokens: number): boolean {
+    return promptTokens <= this.getContextWindow(model) * STRATEGY_PARAMS.CONTEXT_FILL_LIMIT;
+  }
+
+  getModelQuality(model: string): number {
+    return this.registry.get(model).quality;
+  }
+
   private scoreCost(model: string, totalScore: number): number {
     if (!this.isFreeModel(model)) return (1.0 - this.getComplexityMultiplier(totalScore)) * 0.5;
     return this.getComplexityMultiplier(totalScore);
@@ -43,22 +51,19 @@ export class ModelScorer {
   }
 
   private scoreSuitability(model: string, scores: DimensionScore): number {
-    const name = model.toLowerCase();
-
-    if ((name.includes('coder') || name.includes('code')) && scores.code > 0) return 1.0;
-    if ((name.includes('r1') || name.includes('chimera') || name.includes('think')) && scores.reasoning > 0) return 1.0;
-    if (name.includes('trinity') && scores.creative > 0) return 1.0;
-    if (name.includes('claude') || name.includes('gpt') || name.includes('llama')) return 0.7;
+    if (this.hasSpecialty(model, 'code') && scores.code > 0) return 1.0;
+    if (this.hasSpecialty(model, 'reasoning') && scores.reasoning > 0) return 1.0;
+    if (this.hasSpecialty(model, 'creative') && scores.creative > 0) return 1.0;
+    if (this.hasSpecialty(model, 'general')) return 0.7;
 
     return 0.5;
   }
 
-  private scoreContext(model: string, message: MessageContext): number {
-    const estimatedTokens = Math.ceil(message.text.length / 4);
+  private scoreContext(model: string, promptTokens: number): number {
     const modelContext = this.getContextWindow(model);
 
-    if (estimatedTokens > modelContext * 0.8) return 0.0;
-    if (estimatedTokens > modelContext * 0.5) return 0.5;
+    if (promptTokens > modelContext * 0.8) return 0.0;
+    if (promptTokens > modelContext * 0.5) return 0.5;
     return 1.0;
   }
 
@@ -75,35 +80,33 @@ export class ModelScorer {
   }
 
   private scoreReliability(model: string): number {
-    if (this.isFreeModel(model)) return 0.7;
-    if (model.includes('claude') || model.includes('gpt-4')) return 1.0;
-    return 0.8;
+    return this.registry.get(model).reliability;
   }
 
   private scoreMultilingual(model: string, message: MessageContext): number {
-    const hasNonAscii = /[^\x00-\x7F]/.test(message.text);
-    if (!hasNonAscii) return 1.0;
-    if (model.includes('qwen') || model.includes('llama')) return 1.0;
+    const { DEFAULT, UNDETERMINED } = LANGUAGE_PARAMS;
+    if (!message.language || message.language === DEFAULT || message.language === UNDETERMINED) return 1.0;
+    if (this.hasSpecialty(model, 'multilingual')) return 1.0;
     return 0.7;
   }
 
   private scoreCodeGen(model: string, scores: DimensionScore): number {
     if (scores.code === 0) return 0.5;
-    if (model.includes('coder') || model.includes('code')) return 1.0;
-    if (model.includes('claude') || model.includes('gpt')) return 0.8;
+    if (this.hasSpecialty(model, 'code')) return 1.0;
+    if (this.getModelQuality(model) >= 0.85) return 0.8;
     return 0.5;
   }
 
   private scoreReasoning(model: string, scores: DimensionScore): number {
     if (scores.reasoning === 0) return 0.5;
-    if (model.includes('r1') || model.includes('chimera') || model.includes('think')) return 1.0;
-    if (model.includes('opus')) return 0.9;
+    if (this.hasSpecialty(model, 'reasoning')) return 1.0;
+    if (this.getModelQuality(model) >= 0.95) return 0.9;
     return 0.6;
   }
 
   private scoreCreativity(model: string, scores: DimensionScore): number {
     if (scores.creative === 0) return 0.5;
-    if (model.includes('trinity') || model.includes('claude')) return 1.0;
+    if (this.hasSpecialty(model, 'creative')) return 1.0;
     return 0.7;
   }
 
@@ -116,38 +119,26 @@ export class ModelScorer {
   }
 
   private scoreProviderDiversity(model: string): number {
-    return model.includes('openrouter') ? 1.0 : 0.7;
+    return GATEWAY_PROVIDERS.includes(this.registry.get(model).provider) ? 1.0 : 0.7;
   }
 
   private scoreExperimental(model: string): number {
-    return model.includes('thinking') || model.includes('preview') ? 1.0 : 0.5;
+    return this.registry.get(model).experimental ? 1.0 : 0.5;
   }
 
   private isFreeModel(model: string): boolean {
-    return model.includes(':free') || model.toLowerCase().includes('free');
+    return this.registry.isFree(model);
+  }
+
+  private hasSpecialty(model: string, specialty: string): boolean {
+    return this.registry.get(model).specialties.includes(specialty);
   }
 
   private getContextWindow(model: string): number {
-    if (model.includes('claude')) return CONTEXT_WINDOW_SIZES.CLAUDE;
-    if (model.includes('gpt-4')) return CONTEXT_WINDOW_SIZES.GPT4;
-    if (model.includes('llama')) return CONTEXT_WINDOW_SIZES.LLAMA;
-    if (model.includes('qwen')) return CONTEXT_WINDOW_SIZES.QWEN;
-    return CONTEXT_WINDOW_SIZES.DEFAULT;
+    return this.registry.get(model).contextWindow;
   }
 
   private getModelSpeed(model: string): 'fast' | 'medium' | 'slow' {
-    if (model.includes('haiku') || model.includes('qwen3-80b')) return 'fast';
-    if (model.includes('thinking') || model.includes('r1')) return 'slow';
-    return 'medium';
-  }
-
-  private getModelQuality(model: string): number {
-    if (model.includes('opus')) return MODEL_QUALITY_SCORES.OPUS;
-    if (model.includes('sonnet')) return MODEL_QUALITY_SCORES.SONNET;
-    if (model.includes('gpt-4')) return MODEL_QUALITY_SCORES.GPT4;
-    if (model.includes('claude')) return MODEL_QUALITY_SCORES.CLAUDE;
-    if (model.includes('llama-3.3')) return MODEL_QUALITY_SCORES.LLAMA_3_3;
-    if (model.includes('qwen')) return MODEL_QUALITY_SCORES.QWEN;
-    return MODEL_QUALITY_SCORES.DEFAULT;
+    return this.registry.get(model).speed;
   }
 }
@@ -0,0 +1,74 @@
+import { MessageContext, SessionStats, SessionTurn } from './types';
+import { SESSION_PARAMS } from './constants';
+
+interface SessionEntry {
+  turns: SessionTurn[];
+  lastSeen: number;
+}
+
+export class SessionStore {
+  private sessions = new Map<string, SessionEntry>();
+
+  constructor(
+    private enabled: boolean,
+    private ttlSeconds: number
+  ) {}
+
+  /** Applies reloaded settings; disabling forgets every session. */
+  configure(enabled: boolean, ttlSeconds: number): void {
+    this.enabled = enabled;
+    this.ttlSeconds = ttlSeconds;
+    if (!enabled) this.sessions.clear();
+  }
+
+  keyFor(message: MessageContext): string | null {
+    if (!this.enabled) return null;
+    if (message.sessionId) return `session:${message.sessionId}`;
+    if (message.sender) return `${message.channel}:${message.sender}`;
+    return null;
+  }
+
+  record(key: string | null, turn: SessionTurn): void {
+    if (!key) return;
+
+    const entry = this.sessions.get(key);
+    const turns = entry && !this.isExpired(entry) ? entry.turns : [];
+    const recent = [...turns, turn].slice(-SESSION_PARAMS.MAX_RECENT_TURNS);
+
+    this.sessions.delete(key);
+    this.sessions.set(key, { turns: recent, lastSeen: Date.now() });
+    this.evictOverflow();
+  }
+
+  getRecentTurns(key: string | null): SessionTurn[] {
+    if (!key) return [];
+
+    const entry = this.sessions.get(key);
+    if (!entry) return [];
+
+    if (this.isExpired(entry)) {
+      this.sessions.delete(key);
+      return [];
+    }
+    return [...entry.turns];
+  }
+
+  getStats(): SessionStats {
+    return {
+      enabled: this.enabled,
+      active: this.sessions.size,
+      ttlSeconds: this.ttlSeconds,
+    };
+  }
+
+  private isExpired(entry: SessionEntry): boolean {
+    return Date.now() - entry.lastSeen > this.ttlSeconds * 1000;
+  }
+
+  private evictOverflow(): void {
+    while (this.sessions.size > SESSION_PARAMS.MAX_SESSIONS) {
+      const oldest = this.sessions.keys().next().value as string;
+      this.sessions.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import * as fs from 'fs';
+import { randomBytes } from 'crypto';
+import { setTimeout as delay } from 'timers/promises';
+import { DecisionLog, DecisionSink, HttpSinkConfig, Logger, SinksConfig } from './types';
+import { StructuredLogger } from './log';
+import { SINK_PARAMS } from './constants';
+
+const SPAN_KIND_INTERNAL = 1;
+
+/** Appends buffered lines to a JSONL file off the routing path. */
+export class JsonlFileSink implements DecisionSink {
+  private buffer: string[] = [];
+  private writing: Promise<void> = Promise.resolve();
+  private timer: NodeJS.Timeout;
+
+  constructor(private file: string, private log: Logger = new StructuredLogger()) {
+    this.timer = setInterval(() => this.flush(), SINK_PARAMS.JSONL_FLUSH_MS);
+    this.timer.unref();
+  }
+
+  write(entry: DecisionLog): void {
+    this.buffer.push(JSON.stringify(entry));
+    if (this.buffer.length >= SINK_PARAMS.JSONL_MAX_BUFFER) void this.flush();
+  }
+
+  flush(): Promise<void> {
+    if (this.buffer.length === 0) return this.writing;
+
+    const chunk = `${this.buffer.join('\n')}\n`;
+    this.buffer = [];
+    this.writing = this.writing
+      .then(() => fs.promises.appendFile(this.file, chunk, 'utf8'))
+      .catch(error => this.log.error('Failed to write decision log:', error));
+    return this.writing;
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.timer);
+    await this.flush();
+  }
+}
+
+/**
+ * Posts decisions in batches of `batch_size`, or every `flush_ms`. Network
+ * errors, 408, 429 and 5xx responses are retried with exponential backoff;
+ * other responses drop the batch. The queue is bounded, so a dead endpoint
+ * loses the oldest decisions instead of growing memory.
+ */
+abstract class BatchingHttpSink implements DecisionSink {
+  private queue: DecisionLog[] = [];
+  private sending: Promise<void> = Promise.resolve();
+  private timer: NodeJS.Timeout;
+  private dropped = 0;
+
+  constructor(
+    private url: string,
+    private options: HttpSinkConfig,
+    private label: string,
+    private log: Logger
+  ) {
+    this.timer = setInterval(() => this.flush(), options.flush_ms ?? SINK_PARAMS.HTTP_FLUSH_MS);
+    this.timer.unref();
+  }
+
+  protected abstract encode(batch: DecisionLog[]): unknown;
+
+  write(entry: DecisionLog): void {
+    if (this.queue.length >= SINK_PARAMS.HTTP_MAX_QUEUE) {
+      this.queue.shift();
+      this.dropped++;
+    }
+    this.queue.push(entry);
+    if (this.queue.length >= this.batchSize()) void this.flush();
+  }
+
+  flush(): Promise<void> {
+    this.sending = this.sending.then(async () => {
+      if (this.dropped > 0) {
+        this.log.warn(`${this.label}: queue full, dropped ${this.dropped} decisions`);
+        this.dropped = 0;
+      }
+      while (this.queue.length > 0) {
+        await this.send(this.queue.splice(0, this.batchSize()));
+      }
+    });
+    return this.sending;
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.timer);
+    await this.flush();
+  }
+
+  private batchSize(): number {
+    return this.options.batch_size ?? SINK_PARAMS.HTTP_BATCH_SIZE;
+  }
+
+  private async send(batch: DecisionLog[]): Promise<void> {
+    const body = JSON.stringify(this.encode(batch));
+    const maxRetries = this.options.max_retries ?? SINK_PARAMS.MAX_RETRIES;
+    let reason = '';
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      if (attempt > 0) await delay(SINK_PARAMS.RETRY_BACKOFF_MS * 2 ** (attempt - 1));
+
+      const failure = await this.post(body);
+      if (!failure) return;
+      reason = failure.reason;
+      if (!failure.retryable) break;
+    }
+
+    this.log.error(`${this.label}: dropped ${batch.length} decisions (${reason})`);
+  }
+
+  private async post(body: string): Promise<{ reason: string; retryable: boolean } | null> {
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...this.options.headers },
+        body,
+        signal: AbortSignal.timeout(SINK_PARAMS.HTTP_TIMEOUT_MS),
+      });
+      await response.body?.cancel();
+      if (response.ok) return null;
+
+      const { status } = response;
+      return { reason: `HTTP ${status}`, retryable: status === 408 || status === 429 || status >= 500 };
+    } catch (error) {
+      return { reason: (error as Error).message, retryable: true };
+    }
+  }
+}
+
+/** Posts `{ "decisions": [...] }` with the decision log entries as written to JSONL. */
+export class WebhookSink extends BatchingHttpSink {
+  constructor(options: SinksConfig['webhook'], log: Logger) {
+    super(options.url!, options, 'Decision webhook', log);
+  }
+
+  protected encode(batch: DecisionLog[]): unknown {
+    return { decisions: batch };
+  }
+}
+
+/** One span per decision, sent as OTLP/HTTP JSON to `<endpoint>/v1/traces`. */
+export class OtlpSpanSink extends BatchingHttpSink {
+  constructor(private settings: SinksConfig['otlp'], log: Logger) {
+    super(`${settings.endpoint!.replace(/\/+$/, '')}/v1/traces`, settings, 'OTLP exporter', log);
+  }
+
+  protected encode(batch: DecisionLog[]): unknown {
+    return {
+      resourceSpans: [{
+        resource: { attributes: [this.attribute('service.name', this.settings.service_name || 'model-router')] },
+        scopeSpans: [{
+          scope: { name: 'model-router' },
+          spans: batch.map(entry => this.toSpan(entry)),
+        }],
+      }],
+    };
+  }
+
+  private toSpan(entry: DecisionLog) {
+    const end = BigInt(Date.parse(entry.timestamp)) * 1_000_000n;
+    const start = end - BigInt(Math.round(entry.execution_time_ms * 1_000_000));
+    const attributes = [
+      this.attribute('message.id', entry.message_id),
+      this.attribute('model_router.channel', entry.channel),
+      this.attribute('model_router.tier', entry.complexity),
+      this.attribute('model_router.model', entry.selected_model),
+      this.attribute('model_router.strategy', entry.strategy),
+      this.attribute('model_router.confidence', entry.confidence),
+      this.attribute('model_router.cached', !!entry.cached),
+      this.attribute('model_router.timed_out', !!entry.timed_out),
+      this.attribute('model_router.fired_rules', entry.fired_rules.join(',')),
+    ];
+    if (entry.language) attributes.push(this.attribute('model_router.language', entry.language));
+
+    return {
+      traceId: randomBytes(16).toString('hex'),
+      spanId: randomBytes(8).toString('hex'),
+      name: 'model_router.route',
+      kind: SPAN_KIND_INTERNAL,
+      startTimeUnixNano: start.toString(),
+      endTimeUnixNano: end.toString(),
+      attributes,
+    };
+  }
+
+  private attribute(key: string, value: string | number | boolean) {
+    if (typeof value === 'boolean') return { key, value: { boolValue: value } };
+    if (typeof value === 'number') return { key, value: { doubleValue: value } };
+    return { key, value: { stringValue: value } };
+  }
+}
+
+/** The network sinks enabled in config; the JSONL file and metrics are wired separately. */
+export function createSinks(config: SinksConfig, log: Logger): DecisionSink[] {
+  const sinks: DecisionSink[] = [];
+  if (config.otlp.enabled) sinks.push(new OtlpSpanSink(config.otlp, log));
+  if (config.webhook.enabled) sinks.push(new WebhookSink(config.webhook, log));
+  return sinks;
+}
@@ -0,0 +1,154 @@
+import { DecisionLog, DecisionStatsReport, StatsOptions } from './types';
+import { ModelRegistry } from './registry';
+
+const DURATION_UNITS: Record<string, number> = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000, w: 7 * 24 * 60 * 60 * 1000 };
+const LEGACY_CONFIDENCE = /with ([\d.]+)% confidence/;
+
+/**
+ * Summarizes logged routing decisions: tier and model mix, routing latency,
+ * low-confidence rate and estimated spend against an always-premium baseline.
+ */
+export class DecisionStats {
+  constructor(
+    private registry: ModelRegistry,
+    private options: StatsOptions
+  ) {}
+
+  /** Accepts a relative window (`30m`, `24h`, `7d`, `2w`) or anything `Date` can parse. */
+  static parseTime(value: string, now: Date = new Date()): Date {
+    const relative = value.match(/^(\d+)([mhdw])$/);
+    if (relative) return new Date(now.getTime() - parseInt(relative[1], 10) * DURATION_UNITS[relative[2]]);
+
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) throw new Error(`Invalid time "${value}": use e.g. 30m, 24h, 7d or an ISO date`);
+    return date;
+  }
+
+  summarize(logged: DecisionLog[], skippedLines: number = 0): DecisionStatsReport {
+    const decisions = logged.filter(decision => this.inScope(decision));
+    const latencies = decisions.map(decision => decision.execution_time_ms || 0).sort((a, b) => a - b);
+    const lowConfidence = decisions.filter(decision => this.confidenceOf(decision) < this.options.lowConfidence).length;
+    const timestamps = decisions.map(decision => decision.timestamp).sort();
+
+    return {
+      decisions: decisions.length,
+      skippedLines,
+      window: {
+        since: this.options.since?.toISOString() ?? null,
+        until: this.options.until?.toISOString() ?? null,
+      },
+      channel: this.options.channel ?? null,
+      firstDecision: timestamps[0] ?? null,
+      lastDecision: timestamps[timestamps.length - 1] ?? null,
+      tiers: this.countBy(decisions, decision => decision.complexity),
+      models: this.countBy(decisions, decision => decision.selected_model),
+      latencyMs: {
+        p50: this.percentile(latencies, 0.5),
+        p95: this.percentile(latencies, 0.95),
+        max: latencies[latencies.length - 1] ?? 0,
+      },
+      lowConfidence: {
+        threshold: this.options.lowConfidence,
+        count: lowConfidence,
+        rate: decisions.length > 0 ? lowConfidence / decisions.length : 0,
+      },
+      timedOut: decisions.filter(decision => decision.timed_out).length,
+      cost: this.estimateSavings(decisions),
+    };
+  }
+
+  static format(report: DecisionStatsReport): string {
+    const window = [report.window.since && `since ${report.window.since}`, report.window.until && `until ${report.window.until}`]
+      .filter(Boolean)
+      .join(' ');
+    const lines = [
+      `Routing decisions: ${report.decisions}${report.channel ? ` on ${report.channel}` : ''}${window ? ` (${window})` : ''}`,
+    ];
+
+    if (report.firstDecision) lines.push(`Logged between ${report.firstDecision} and ${report.lastDecision}`);
+    if (report.skippedLines > 0) lines.push(`Skipped ${report.skippedLines} unreadable log lines`);
+    if (report.decisions === 0) return lines.join('\n');
+
+    lines.push('', 'Tiers:');
+    this.appendDistribution(lines, report.tiers, report.decisions);
+    lines.push('', 'Models:');
+    this.appendDistribution(lines, report.models, report.decisions);
+
+    const { cost } = report;
+    lines.push(
+      '',
+      `Routing latency: p50 ${report.latencyMs.p50}ms, p95 ${report.latencyMs.p95}ms, max ${report.latencyMs.max}ms`,
+      `Low confidence (< ${(report.lowConfidence.threshold * 100).toFixed(0)}%): ${report.lowConfidence.count} (${(report.lowConfidence.rate * 100).toFixed(1)}%)`,
+      `Timed out: ${report.timedOut}`,
+      '',
+      `Estimated cost over ${cost.pricedDecisions} priced decisions (assuming ${cost.assumedOutputTokens} output tokens each):`,
+      `  routed:   $${cost.routedUsd.toFixed(4)}`,
+      `  baseline: $${cost.baselineUsd.toFixed(4)} (always ${cost.baselineModel})`,
+      `  saved:    $${cost.savedUsd.toFixed(4)} (${(cost.savedRate * 100).toFixed(1)}%)`,
+    );
+
+    return lines.join('\n');
+  }
+
+  private static appendDistribution(lines: string[], counts: Record<string, number>, total: number): void {
+    Object.entries(counts)
+      .sort(([, a], [, b]) => b - a)
+      .forEach(([name, count]) => {
+        lines.push(`  ${name.padEnd(48)} ${String(count).padStart(6)}  ${((count / total) * 100).toFixed(1).padStart(5)}%`);
+      });
+  }
+
+  private inScope(decision: DecisionLog): boolean {
+    const time = new Date(decision.timestamp).getTime();
+    if (this.options.since && time < this.options.since.getTime()) return false;
+    if (this.options.until && time > this.options.until.getTime()) return false;
+    return !this.options.channel || decision.channel === this.options.channel;
+  }
+
+  // Entries written before `confidence` was logged only carry it in the reason text.
+  private confidenceOf(decision: DecisionLog): number {
+    if (typeof decision.confidence === 'number') return decision.confidence;
+    const legacy = decision.selection_reason?.match(LEGACY_CONFIDENCE);
+    return legacy ? parseFloat(legacy[1]) / 100 : 1;
+  }
+
+  private estimateSavings(decisions: DecisionLog[]): DecisionStatsReport['cost'] {
+    const { baselineModel, assumedOutputTokens } = this.options;
+    const priced = decisions.filter(decision =>
+      typeof decision.estimated_tokens === 'number' && this.registry.has(decision.selected_model)
+    );
+    const routedUsd = this.sum(priced.map(decision =>
+      this.registry.estimateCost(decision.selected_model, decision.estimated_tokens, assumedOutputTokens)
+    ));
+    const baselineUsd = this.sum(priced.map(decision =>
+      this.registry.estimateCost(baselineModel, decision.estimated_tokens, assumedOutputTokens)
+    ));
+
+    return {
+      baselineModel,
+      assumedOutputTokens,
+      pricedDecisions: priced.length,
+      routedUsd,
+      baselineUsd,
+      savedUsd: baselineUsd - routedUsd,
+      savedRate: baselineUsd > 0 ? (baselineUsd - routedUsd) / baselineUsd : 0,
+    };
+  }
+
+  private countBy(decisions: DecisionLog[], key: (decision: DecisionLog) => string): Record<string, number> {
+    return decisions.reduce((counts, decision) => {
+      const name = key(decision);
+      counts[name] = (counts[name] || 0) + 1;
+      return counts;
+    }, {} as Record<string, number>);
+  }
+
+  private percentile(sorted: number[], fraction: number): number {
+    if (sorted.length === 0) return 0;
+    return sorted[Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)];
+  }
+
+  private sum(values: number[]): number {
+    return values.reduce((total, value) => total + value, 0);
+  }
+}
@@ -0,0 +1,101 @@
+import {
+  ComplexityLevel,
+  DimensionScore,
+  RankedModel,
+  RoutingStrategy,
+  StrategyDecision,
+  TierRanking,
+  TiersConfig
+} from './types';
+import { ModelScorer } from './scorer';
+import { STRATEGY_PARAMS } from './constants';
+
+export class StrategyPolicy {
+  constructor(
+    private tiers: TiersConfig,
+    private scorer: ModelScorer
+  ) {}
+
+  apply(
+    strategy: RoutingStrategy,
+    tier: ComplexityLevel,
+    scores: DimensionScore,
+    totalScore: number,
+    confidence: number,
+    ranking: TierRanking
+  ): StrategyDecision {
+    switch (strategy) {
+      case 'quality-first':
+        return this.applyQualityFirst(tier, scores, totalScore, ranking);
+      case 'balanced':
+        return this.applyBalanced(tier, confidence, ranking(tier));
+      default:
+        return this.applyCostOptimized(tier, ranking(tier));
+    }
+  }
+
+  private applyCostOptimized(tier: ComplexityLevel, ranked: RankedModel[]): StrategyDecision {
+    const free = this.best(ranked, true);
+    if (!free) {
+      return { tier, model: this.best(ranked, false)!.model, reason: `no free model available for ${tier}` };
+    }
+    return { tier, model: free.model, reason: 'free model preferred' };
+  }
+
+  private applyQualityFirst(
+    tier: ComplexityLevel,
+    scores: DimensionScore,
+    totalScore: number,
+    ranking: TierRanking
+  ): StrategyDecision {
+    const escalated = this.escalateBorderline(tier, scores, totalScore);
+    const top = ranking(escalated).reduce((best, candidate) =>
+      this.scorer.getModelQuality(candidate.model) > this.scorer.getModelQuality(best.model) ? candidate : best
+    );
+
+    const reason = escalated === tier
+      ? `highest-quality model for ${tier}`
+      : `borderline score ${totalScore.toFixed(3)} escalated ${tier} to ${escalated}, highest-quality model`;
+
+    return { tier: escalated, model: top.model, reason };
+  }
+
+  private applyBalanced(
+    tier: ComplexityLevel,
+    confidence: number,
+    ranked: RankedModel[]
+  ): StrategyDecision {
+    const free = this.best(ranked, true);
+    const paid = this.best(ranked, false)?.model;
+    const pct = `${(confidence * 100).toFixed(1)}%`;
+
+    // The ranking is never empty, so one of the two exists. A tier without a
+    // paid candidate, or whose paid models are all unhealthy, stays free.
+    if (!free) {
+      return { tier, model: paid!, reason: `no free model available for ${tier}` };
+    }
+    if (!paid) {
+      return { tier, model: free.model, reason: `no paid model available for ${tier}, using free model` };
+    }
+    if (confidence < STRATEGY_PARAMS.BALANCED_MIN_CONFIDENCE) {
+      return { tier, model: paid, reason: `confidence ${pct} below balanced floor, using paid model` };
+    }
+    if (!this.scorer.fitsContext(free.model, free.promptTokens)) {
+      return { tier, model: paid, reason: 'request exceeds free model context window, using paid model' };
+    }
+    return { tier, model: free.model, reason: `confidence ${pct} with fitting free model` };
+  }
+
+  private best(ranked: RankedModel[], free: boolean): RankedModel | undefined {
+    return ranked.find(candidate => candidate.free === free);
+  }
+
+  private escalateBorderline(tier: ComplexityLevel, scores: DimensionScore, totalScore: number): ComplexityLevel {
+    const t = this.tiers.thresholds;
+    const margin = STRATEGY_PARAMS.BORDERLINE_MARGIN;
+
+    if (tier === 'COMPLEX' && totalScore >= t.PREMIUM_MIN - margin) return 'PREMIUM';
+    if (tier === 'SIMPLE' && !scores.simple && totalScore >= t.SIMPLE_MAX - margin) return 'COMPLEX';
+    return tier;
+  }
+}
@@ -0,0 +1,126 @@
+import { CharacterCounts, MessageContext, TokenizerFamily } from './types';
+import { ModelRegistry } from './registry';
+import { TOKENIZER_PROFILES, TOKEN_PARAMS } from './constants';
+
+// Hiragana/katakana, CJK ideographs, Hangul syllables and compatibility ideographs.
+const CJK_RANGES: Array<[number, number]> = [
+  [0x3040, 0x30FF], [0x3400, 0x4DBF], [0x4E00, 0x9FFF], [0xAC00, 0xD7AF], [0xF900, 0xFAFF],
+];
+const LATIN_END = 0x024F;
+
+// Checked in order, so Claude models served through other providers match first.
+const FAMILY_PATTERNS: Array<{ family: TokenizerFamily; pattern: RegExp }> = [
+  { family: 'claude', pattern: /claude|anthropic/i },
+  { family: 'gpt', pattern: /gpt|openai\/o\d/i },
+  { family: 'gemini', pattern: /gemini|gemma/i },
+  { family: 'llama', pattern: /llama/i },
+  { family: 'qwen', pattern: /qwen/i },
+  { family: 'deepseek', pattern: /deepseek/i },
+  { family: 'mistral', pattern: /mistral|mixtral|codestral/i },
+];
+
+/**
+ * Approximates token counts from character classes: Latin text by characters
+ * per token, with ASCII punctuation counted on its own since code tokenizes
+ * densely, and CJK or other non-Latin scripts per character. Densities differ
+ * by model family; see TOKENIZER_PROFILES.
+ */
+export class TokenEstimator {
+  estimate(text: string, family: TokenizerFamily = 'default'): number {
+    return this.fromCounts(this.count(text), family);
+  }
+
+  fromCounts(counts: CharacterCounts, family: TokenizerFamily = 'default'): number {
+    const profile = TOKENIZER_PROFILES[family];
+    return Math.ceil(
+      counts.plain / profile.charsPerToken +
+      counts.symbols / TOKEN_PARAMS.SYMBOLS_PER_TOKEN +
+      counts.cjk * profile.cjkTokensPerChar +
+      counts.other * profile.otherTokensPerChar
+    );
+  }
+
+  /** One pass over the text; long pasted logs make a regex per class too slow. */
+  count(text: string): CharacterCounts {
+    const counts: CharacterCounts = { plain: 0, symbols: 0, cjk: 0, other: 0 };
+
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      if (code < 0x80) {
+        if (this.isSymbol(code)) counts.symbols++;
+        else counts.plain++;
+      } else if (code <= LATIN_END) {
+        counts.plain++;
+      } else if (CJK_RANGES.some(([from, to]) => code >= from && code <= to)) {
+        counts.cjk++;
+      } else {
+        counts.other++;
+      }
+    }
+
+    return counts;
+  }
+
+  familyOf(model: string): TokenizerFamily {
+    return FAMILY_PATTERNS.find(({ pattern }) => pattern.test(model))?.family ?? 'default';
+  }
+
+  private isSymbol(code: number): boolean {
+    return (code >= 0x21 && code <= 0x2F) || (code >= 0x3A && code <= 0x40) ||
+      (code >= 0x5B && code <= 0x60) || (code >= 0x7B && code <= 0x7E);
+  }
+}
+
+/**
+ * The size of one message as each candidate model would count it: text and
+ * history by the model's tokenizer, plus the conversation and attachment
+ * token counts a host may pass in `metadata.conversationTokens` and
+ * `metadata.attachmentTokens` (or per attachment as `tokens`). A host
+ * conversation count replaces the estimate from `history`, which only holds
+ * recent turns.
+ */
+export class PromptSize {
+  private byFamily = new Map<TokenizerFamily, number>();
+  private text?: CharacterCounts;
+  private history?: CharacterCounts;
+
+  constructor(
+    private message: MessageContext,
+    private registry: ModelRegistry,
+    private estimator: TokenEstimator,
+    readonly reserveTokens: number = TOKEN_PARAMS.OUTPUT_RESERVE_TOKENS
+  ) {}
+
+  tokensFor(model: string): number {
+    const family = this.registry.get(model).tokenizer ?? this.estimator.familyOf(model);
+    if (!this.byFamily.has(family)) this.byFamily.set(family, this.measure(family));
+    return this.byFamily.get(family)!;
+  }
+
+  /** Whether the prompt plus the output reserve fits the model's context window. */
+  fits(model: string): boolean {
+    return this.tokensFor(model) + this.reserveTokens <= this.registry.get(model).contextWindow;
+  }
+
+  private measure(family: TokenizerFamily): number {
+    this.text ??= this.estimator.count(this.message.text);
+    const conversation = this.hostCount('conversationTokens') ?? this.historyTokens(family);
+    return this.estimator.fromCounts(this.text, family) + conversation + this.attachmentTokens();
+  }
+
+  private attachmentTokens(): number {
+    return this.hostCount('attachmentTokens') ??
+      (this.message.attachments ?? []).reduce((sum, { tokens }) => sum + (tokens && tokens > 0 ? Math.ceil(tokens) : 0), 0);
+  }
+
+  private historyTokens(family: TokenizerFamily): number {
+    if (!this.message.history?.length) return 0;
+    this.history ??= this.estimator.count(this.message.history.join('\n'));
+    return this.estimator.fromCounts(this.history, family);
+  }
+
+  private hostCount(key: string): number | undefined {
+    const value = this.message.metadata?.[key];
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.ceil(value) : undefined;
+  }
+}
@@ -0,0 +1,209 @@
+import {
+  ConfigSnapshot,
+  CorpusEntry,
+  DimensionsConfig,
+  TiersConfig,
+  TuneChange,
+  TuneMetrics,
+  TuneOptions,
+  TuneReport
+} from './types';
+import { ModelRouter } from './router';
+import { TierEvaluation } from './evaluation';
+import { TUNE_PARAMS } from './constants';
+
+interface Candidate {
+  tiers: TiersConfig;
+  dimensions: DimensionsConfig;
+}
+
+interface Score {
+  feasible: boolean;
+  accuracy: number;
+  costPerMessage: number;
+}
+
+interface TunableParameter {
+  file: TuneChange['file'];
+  path: string;
+  get(candidate: Candidate): number;
+  set(candidate: Candidate, value: number): void;
+  neighbours(value: number): number[];
+}
+
+/**
+ * Coordinate search over tier thresholds and dimension weight/max values.
+ * Each step tries nearby values for one parameter and keeps the first that
+ * raises accuracy on the labeled corpus (or keeps it and lowers cost), while
+ * staying under the optional per-message cost ceiling.
+ */
+export class ConfigTuner {
+  private evaluations = 0;
+
+  constructor(
+    private snapshot: ConfigSnapshot,
+    private entries: CorpusEntry[],
+    private options: TuneOptions
+  ) {}
+
+  async run(): Promise<{ report: TuneReport; tiers: TiersConfig; dimensions: DimensionsConfig }> {
+    const original: Candidate = { tiers: this.snapshot.tiers, dimensions: this.snapshot.dimensions };
+    const best: Candidate = structuredClone(original);
+    const parameters = this.parametersFor(best);
+    let bestScore = await this.score(best);
+
+    for (let round = 0; round < this.options.rounds; round++) {
+      let improved = false;
+
+      for (const parameter of parameters) {
+        const current = parameter.get(best);
+
+        for (const value of parameter.neighbours(current)) {
+          parameter.set(best, value);
+          const score = this.isValid(best) ? await this.score(best) : null;
+
+          if (score && this.isBetter(score, bestScore)) {
+            bestScore = score;
+            improved = true;
+            break;
+          }
+          parameter.set(best, current);
+        }
+      }
+
+      if (!improved) break;
+    }
+
+    return {
+      report: {
+        fixtures: this.entries.length,
+        evaluations: this.evaluations,
+        maxCostPerMessage: this.options.maxCostPerMessage ?? null,
+        before: await this.metrics(original),
+        after: await this.metrics(best),
+        changes: this.diff(parameters, original, best),
+      },
+      tiers: best.tiers,
+      dimensions: best.dimensions,
+    };
+  }
+
+  static format(report: TuneReport): string {
+    const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+    const lines = [
+      `Tuned on ${report.fixtures} labeled prompts (${report.evaluations} configurations tried)`,
+      `Accuracy:         ${percent(report.before.accuracy)} → ${percent(report.after.accuracy)}`,
+      `Cost per message: $${report.before.costPerMessage.toFixed(6)} → $${report.after.costPerMessage.toFixed(6)}` +
+        (report.maxCostPerMessage !== null ? ` (ceiling $${report.maxCostPerMessage})` : ''),
+      '',
+      `${'Tier'.padEnd(12)}${'recall before'.padStart(15)}${'recall after'.padStart(14)}`,
+      ...Object.keys(report.before.tiers).map(tier =>
+        `${tier.padEnd(12)}${percent(report.before.tiers[tier].recall).padStart(15)}${percent(report.after.tiers[tier].recall).padStart(14)}`
+      ),
+      '',
+    ];
+
+    if (report.changes.length === 0) {
+      lines.push('No change improves on the current configuration.');
+      return lines.join('\n');
+    }
+
+    lines.push('Proposed changes:');
+    ['tiers.json', 'dimensions.json'].forEach(file => {
+      const changes = report.changes.filter(change => change.file === file);
+      if (changes.length === 0) return;
+      lines.push(`--- ${file}`, `+++ ${file} (tuned)`);
+      changes.forEach(change => lines.push(`- ${change.path}: ${change.before}`, `+ ${change.path}: ${change.after}`));
+    });
+
+    return lines.join('\n');
+  }
+
+  private parametersFor(candidate: Candidate): TunableParameter[] {
+    const thresholds = Object.keys(candidate.tiers.thresholds).map((key): TunableParameter => ({
+      file: 'tiers.json',
+      path: `thresholds.${key}`,
+      get: c => (c.tiers.thresholds as Record<string, number>)[key],
+      set: (c, value) => { (c.tiers.thresholds as Record<string, number>)[key] = value; },
+      neighbours: value => this.scaled(value),
+    }));
+
+    const dimensions = candidate.dimensions.dimensions.flatMap((dimension, index): TunableParameter[] => [
+      {
+        file: 'dimensions.json',
+        path: `dimensions[${index}] (${dimension.name}).weight`,
+        get: c => c.dimensions.dimensions[index].weight,
+        set: (c, value) => { c.dimensions.dimensions[index].weight = value; },
+        neighbours: value => this.scaled(value),
+      },
+      {
+        file: 'dimensions.json',
+        path: `dimensions[${index}] (${dimension.name}).max`,
+        get: c => c.dimensions.dimensions[index].max,
+        set: (c, value) => { c.dimensions.dimensions[index].max = value; },
+        neighbours: value => TUNE_PARAMS.MAX_STEPS.map(step => value + step).filter(max => max >= 1),
+      },
+    ]);
+
+    return [...thresholds, ...dimensions];
+  }
+
+  private scaled(value: number): number[] {
+    const values = TUNE_PARAMS.SCALE_STEPS.map(step =>
+      Math.round(value * step * TUNE_PARAMS.PRECISION) / TUNE_PARAMS.PRECISION
+    );
+    return [...new Set(values)].filter(candidate => candidate !== value && candidate > 0);
+  }
+
+  private isValid(candidate: Candidate): boolean {
+    const { SIMPLE_MAX, COMPLEX_MIN, PREMIUM_MIN } = candidate.tiers.thresholds;
+    return SIMPLE_MAX <= COMPLEX_MIN && COMPLEX_MIN <= PREMIUM_MIN;
+  }
+
+  private isBetter(score: Score, best: Score): boolean {
+    if (score.feasible !== best.feasible) return score.feasible;
+    if (score.accuracy !== best.accuracy) return score.accuracy > best.accuracy;
+    return score.costPerMessage < best.costPerMessage;
+  }
+
+  private async score(candidate: Candidate): Promise<Score> {
+    const router = this.createRouter(candidate);
+    let correct = 0;
+    let cost = 0;
+
+    for (const { message, expected } of this.entries) {
+      const result = await router.route({ ...message }, { strategy: this.options.strategy, timeoutMs: Infinity });
+      if (result.tier === expected) correct++;
+      cost += router.estimateCost(result.fullModel, result.estimatedTokens, this.options.assumedOutputTokens);
+    }
+
+    this.evaluations++;
+    const costPerMessage = this.entries.length > 0 ? cost / this.entries.length : 0;
+    return {
+      feasible: this.options.maxCostPerMessage === undefined || costPerMessage <= this.options.maxCostPerMessage,
+      accuracy: this.entries.length > 0 ? correct / this.entries.length : 0,
+      costPerMessage,
+    };
+  }
+
+  private async metrics(candidate: Candidate): Promise<TuneMetrics> {
+    const { costPerMessage } = await this.score(candidate);
+    const evaluation = await new TierEvaluation(this.createRouter(candidate), this.options.strategy, 0).run(this.entries);
+    return { accuracy: evaluation.accuracy, costPerMessage, tiers: evaluation.tiers };
+  }
+
+  private diff(parameters: TunableParameter[], before: Candidate, after: Candidate): TuneChange[] {
+    return parameters
+      .filter(parameter => parameter.get(before) !== parameter.get(after))
+      .map(parameter => ({
+        file: parameter.file,
+        path: parameter.path,
+        before: parameter.get(before),
+        after: parameter.get(after),
+      }));
+  }
+
+  private createRouter(candidate: Candidate): ModelRouter {
+    return new ModelRouter(candidate.dimensions, candidate.tiers, this.snapshot.models, this.snapshot.config.models);
+  }
+}
@@ -14,8 +14,73 @@ export interface MessageFeatures {
   hasConstraints: boolean;
   hasReference: boolean;
   hasNegation: boolean;
+  hasStackTrace: boolean;
 }
 
+export type ComparisonOperator = '>' | '>=' | '<' | '<=' | '==';
+
+export type RuleCondition = number | boolean | Partial<Record<ComparisonOperator, number | string>>;
+
+export interface RuleConditions {
+  dimensions?: Record<string, RuleCondition>;
+  total?: RuleCondition;
+  features?: Partial<Record<keyof MessageFeatures, RuleCondition>>;
+  channel?: string | string[];
+  sender?: string | string[];
+  metadata?: Record<string, unknown>;
+  text?: string;
+}
+
+export interface TierRule {
+  name: string;
+  when: RuleConditions;
+  then: {
+    tier?: ComplexityLevel;
+    model?: string;
+  };
+  /** Matches on the absence of other signals; never moves a conversation off its tier. */
+  fallback?: boolean;
+}
+
+export interface RuleInput {
+  scores: DimensionScore;
+  totalScore: number;
+  features: MessageFeatures;
+  message: MessageContext;
+}
+
+export interface RuleMatch {
+  tier: ComplexityLevel;
+  tierRule?: string;
+  model?: string;
+  modelRule?: string;
+  strength: number;
+  runnerUp?: TierSignal;
+  /** The tier came from a fallback rule or default_tier rather than a signal of its own. */
+  fallback: boolean;
+}
+
+/** How strongly the rules argue for a tier: -1 (far from firing) to 1 (clearly fired). */
+export interface TierSignal {
+  tier: ComplexityLevel;
+  strength: number;
+}
+
+export interface EscalationConfig {
+  enabled: boolean;
+  min_confidence: number;
+  order?: ComplexityLevel[];
+}
+
+export interface TierEscalation {
+  from: ComplexityLevel;
+  to: ComplexityLevel;
+  confidence: number;
+  minConfidence: number;
+}
+
+export type RoutingStrategy = 'cost-optimized' | 'quality-first' | 'balanced';
+
 export type ComplexityLevel = 'SIMPLE' | 'CODING' | 'CREATIVE' | 'REASONING' | 'COMPLEX' | 'PREMIUM';
 
 export interface DimensionScore {
@@ -26,26 +91,260 @@ export interface ModelScores {
   [model: string]: number;
 }
 
+export interface RankedModel {
+  model: string;
+  score: number;
+  free: boolean;
+  promptTokens: number;
+}
+
+/** How the prompt fits the selected model's context window. */
+export interface ContextFit {
+  promptTokens: number;
+  reserveTokens: number;
+  contextWindow: number;
+  excluded: string[];
+  steppedFrom?: ComplexityLevel;
+}
+
+export type ModelCapability = 'vision' | 'tools' | 'json' | 'long_output';
+
+export interface CapabilityRequirement {
+  capability: ModelCapability;
+  source: 'message' | 'attachment' | 'text';
+}
+
+/** Capabilities the message needed and which models that ruled out. */
+export interface CapabilityFit {
+  required: CapabilityRequirement[];
+  excluded: string[];
+  unmet: ModelCapability[];
+  steppedFrom?: ComplexityLevel;
+}
+
 export interface RoutingResult {
   tier: ComplexityLevel;
   model: string;
   fullModel: string;
   fallback: string | null;
   fullFallback: string | null;
+  fallbackChain: string[];
   confidence: number;
+  runnerUpTier?: ComplexityLevel;
+  escalation?: TierEscalation;
+  language: DetectedLanguage;
+  context: ContextFit;
+  capabilities?: CapabilityFit;
   totalScore: number;
   scores: DimensionScore;
+  rankedModels: RankedModel[];
   description: string;
+  strategy: RoutingStrategy;
+  strategyReason: string;
+  session?: SessionContinuity;
+  budget?: BudgetConstraint;
+  estimatedTokens: number;
+  firedRules: string[];
+  override?: RoutingOverride;
+  timedOut?: boolean;
   executionTimeMs?: number;
+  cached?: boolean;
+}
+
+export interface SessionContinuity {
+  previousTier: ComplexityLevel;
+  detectedTier: ComplexityLevel;
+  held: boolean;
+  source: 'session' | 'history';
+}
+
+export interface ModelOutcome {
+  ok: boolean;
+  latencyMs?: number;
+  errorCode?: string | number;
+  model?: string;
+  outputTokens?: number;
+}
+
+export interface RouteOptions {
+  strategy?: RoutingStrategy;
+  lastTurn?: SessionTurn;
+  budget?: BudgetConstraint | null;
+  timeoutMs?: number;
+  timeoutTier?: ComplexityLevel;
+  outputReserveTokens?: number;
+  override?: RoutingOverride;
+}
+
+export interface RoutingOverride {
+  directive: string;
+  model?: string;
+  tier?: ComplexityLevel;
+  cheap?: boolean;
+}
+
+export interface ParsedDirectives {
+  text: string;
+  override?: RoutingOverride;
+  rejected: string[];
+}
+
+export interface DirectivesConfig {
+  enabled: boolean;
+  models: Record<string, string>;
+  tiers: ComplexityLevel[];
+  allow_cheap: boolean;
+  senders?: string[];
+}
+
+export interface BudgetConfig {
+  enabled: boolean;
+  daily_usd?: number;
+  monthly_usd?: number;
+  channel_daily_usd?: number;
+  sender_daily_usd?: number;
+  on_exceeded: 'free-only' | 'no-premium';
+}
+
+export type RedactionKind = 'email' | 'phone' | 'token';
+
+export interface DecisionLogConfig {
+  dir?: string;
+  include_text: boolean;
+  text_max_chars: number;
+  include_sender: boolean;
+  hash_senders: boolean;
+  hash_salt?: string;
+  redact: RedactionKind[];
+  max_archives?: number;
+  max_age_days?: number;
+  compress_archives: boolean;
+}
+
+/**
+ * Receives every logged routing decision. `write` must not block the routing
+ * path; sinks buffer and deliver in the background, and `flush` resolves once
+ * everything written so far has been delivered (or given up on).
+ */
+export interface DecisionSink {
+  write(entry: DecisionLog): void;
+  flush(): Promise<void>;
+  close?(): Promise<void>;
+}
+
+export interface HttpSinkConfig {
+  enabled: boolean;
+  headers?: Record<string, string>;
+  batch_size?: number;
+  flush_ms?: number;
+  max_retries?: number;
+}
+
+export interface SinksConfig {
+  prometheus: {
+    enabled: boolean;
+    port: number;
+    host: string;
+  };
+  otlp: HttpSinkConfig & {
+    endpoint?: string;
+    service_name?: string;
+  };
+  webhook: HttpSinkConfig & {
+    url?: string;
+  };
+}
+
+export interface BudgetConstraint {
+  mode: 'free-only' | 'no-premium';
+  reason: string;
+}
+
+export interface LedgerBucket {
+  total: number;
+  channels: Record<string, number>;
+  senders: Record<string, number>;
+}
+
+export interface BudgetStats {
+  enabled: boolean;
+  today: number;
+  month: number;
+  dailyCap: number | null;
+  monthlyCap: number | null;
+}
+
+export interface ModelHealthStats {
+  available: boolean;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  avgLatencyMs: number | null;
+  reopensAt: string | null;
+}
+
+export interface SessionTurn {
+  tier: ComplexityLevel;
+  model: string;
+}
+
+export interface SessionStats {
+  enabled: boolean;
+  active: number;
+  ttlSeconds: number;
+}
+
+export interface CacheStats {
+  enabled: boolean;
+  size: number;
+  maxEntries: number;
+  ttlSeconds: number;
+  hits: number;
+  misses: number;
+  evictions: number;
 }
 
 export interface ModelConfig {
+  provider: string;
   cost: number;
   contextWindow: number;
   specialties: string[];
   speed: 'fast' | 'medium' | 'slow';
   quality: number;
   reliability: number;
+  experimental?: boolean;
+  pricing?: ModelPricing;
+  tokenizer?: TokenizerFamily;
+  capabilities?: ModelCapability[];
+}
+
+export type TokenizerFamily = 'default' | 'claude' | 'gpt' | 'gemini' | 'llama' | 'qwen' | 'deepseek' | 'mistral';
+
+export interface CharacterCounts {
+  plain: number;
+  symbols: number;
+  cjk: number;
+  other: number;
+}
+
+export interface TokenizerProfile {
+  charsPerToken: number;
+  cjkTokensPerChar: number;
+  otherTokensPerChar: number;
+}
+
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface ModelsConfig {
+  version: string;
+  description: string;
+  models: {
+    [model: string]: ModelConfig;
+  };
 }
 
 export interface TierConfig {
@@ -54,16 +353,61 @@ export interface TierConfig {
   paid: string;
   fullFree: string | null;
   fullPaid: string;
+  candidates?: string[];
+  fallbacks?: string[];
 }
 
+export interface StrategyDecision {
+  tier: ComplexityLevel;
+  model: string;
+  reason: string;
+}
+
+export type TierRanking = (tier: ComplexityLevel) => RankedModel[];
+
 export interface Dimension {
   name: string;
   weight: number;
   max: number;
   patterns: string[];
+  patterns_by_lang?: Record<string, string[]>;
   description?: string;
 }
 
+export interface CompiledDimension {
+  name: string;
+  weight: number;
+  max: number;
+  patterns: RegExp[];
+  patternsByLang: Record<string, RegExp[]>;
+}
+
+export interface DetectedLanguage {
+  code: string;
+  script: string;
+  source: 'message' | 'detected';
+}
+
+export interface DimensionCost {
+  name: string;
+  patterns: number;
+  avgMicros: number;
+  share: number;
+  slowestPattern: { index: number; language?: string; source: string; avgMicros: number } | null;
+}
+
+export interface BenchmarkSample {
+  text: string;
+  language: string;
+}
+
+export interface BenchmarkReport {
+  messages: number;
+  iterations: number;
+  avgMicrosPerMessage: number;
+  dimensions: DimensionCost[];
+}
+
 export interface DimensionsConfig {
   version: string;
   description: string;
@@ -83,13 +427,18 @@ export interface TiersConfig {
     REASONING_TRIGGER: number;
     CODING_TRIGGER: number;
     CREATIVE_TRIGGER: number;
-    MULTISTEP_TRIGGER: number;
+    MULTISTEP_TRIGGER?: number;
+    SIMPLE_TRIGGER?: number;
+    SIMPLE_TOTAL_CAP?: number;
   };
+  rules?: TierRule[];
+  default_tier?: ComplexityLevel;
+  escalation?: EscalationConfig;
 }
 
 export interface PluginConfig {
   enabled: boolean;
-  strategy: 'cost-optimized' | 'quality-first' | 'balanced';
+  strategy: RoutingStrategy;
   models: {
     free: string[];
     premium: string[];
@@ -100,10 +449,21 @@ export interface PluginConfig {
     premium_min_score: number;
   };
   timeout_ms: number;
+  timeout_tier: ComplexityLevel;
+  output_reserve_tokens: number;
   cache_decisions: boolean;
   cache_ttl_seconds: number;
+  cache_max_entries: number;
+  sticky_sessions: boolean;
+  session_ttl_seconds: number;
+  budgets: BudgetConfig;
+  directives: DirectivesConfig;
+  watch_config: boolean;
   log_decisions: boolean;
-  log_level: 'debug' | 'info' | 'warn' | 'error';
+  decision_log: DecisionLogConfig;
+  sinks: SinksConfig;
+  log_level: LogLevel;
+  log_format: LogFormat;
   channels: {
     [channel: string]: {
       enabled: boolean;
@@ -111,15 +471,189 @@ export interface PluginConfig {
   };
 }
 
+export interface StatsOptions {
+  since?: Date;
+  until?: Date;
+  channel?: string;
+  baselineModel: string;
+  assumedOutputTokens: number;
+  lowConfidence: number;
+}
+
+export interface DecisionStatsReport {
+  decisions: number;
+  skippedLines: number;
+  window: { since: string | null; until: string | null };
+  channel: string | null;
+  firstDecision: string | null;
+  lastDecision: string | null;
+  tiers: Record<string, number>;
+  models: Record<string, number>;
+  latencyMs: { p50: number; p95: number; max: number };
+  lowConfidence: { threshold: number; count: number; rate: number };
+  timedOut: number;
+  cost: {
+    baselineModel: string;
+    assumedOutputTokens: number;
+    pricedDecisions: number;
+    routedUsd: number;
+    baselineUsd: number;
+    savedUsd: number;
+    savedRate: number;
+  };
+}
+
+export interface CorpusEntry {
+  message: MessageContext;
+  expected?: ComplexityLevel;
+}
+
+export interface ReplaySample {
+  text: string;
+  channel: string;
+  base: { tier: ComplexityLevel; model: string };
+  candidate: { tier: ComplexityLevel; model: string };
+}
+
+export interface ReplayReport {
+  messages: number;
+  skipped: number;
+  baseConfig: string;
+  candidateConfig: string;
+  tierChanges: number;
+  modelChanges: number;
+  confusion: Record<string, Record<string, number>>;
+  cost: {
+    assumedOutputTokens: number;
+    baseUsd: number;
+    candidateUsd: number;
+    deltaUsd: number;
+  };
+  samples: ReplaySample[];
+}
+
+export interface TierMetrics {
+  precision: number;
+  recall: number;
+  support: number;
+  predicted: number;
+}
+
+export interface Misclassification {
+  text: string;
+  channel: string;
+  expected: ComplexityLevel;
+  predicted: ComplexityLevel;
+  firedRules: string[];
+}
+
+export interface EvalReport {
+  fixtures: number;
+  skipped: number;
+  correct: number;
+  accuracy: number;
+  minAccuracy: number;
+  passed: boolean;
+  tiers: Record<string, TierMetrics>;
+  confusion: Record<string, Record<string, number>>;
+  misclassified: Misclassification[];
+}
+
+export interface PrivacyCase {
+  message: MessageContext;
+  settings?: Partial<DecisionLogConfig>;
+  budget?: Partial<BudgetConfig> & { spent_usd?: number };
+  strategy?: RoutingStrategy;
+  expected: Record<string, unknown>;
+  excludes?: string[];
+}
+
+export interface PrivacyFailure {
+  id: string;
+  field: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface PrivacyReport {
+  cases: number;
+  failures: PrivacyFailure[];
+  passed: boolean;
+}
+
+export interface TuneOptions {
+  strategy: RoutingStrategy;
+  rounds: number;
+  assumedOutputTokens: number;
+  maxCostPerMessage?: number;
+}
+
+export interface TuneChange {
+  file: 'tiers.json' | 'dimensions.json';
+  path: string;
+  before: number;
+  after: number;
+}
+
+export interface TuneMetrics {
+  accuracy: number;
+  costPerMessage: number;
+  tiers: Record<string, TierMetrics>;
+}
+
+export interface TuneReport {
+  fixtures: number;
+  evaluations: number;
+  maxCostPerMessage: number | null;
+  before: TuneMetrics;
+  after: TuneMetrics;
+  changes: TuneChange[];
+}
+
+export interface ConfigSnapshot {
+  config: PluginConfig;
+  dimensions: DimensionsConfig;
+  tiers: TiersConfig;
+  models: ModelsConfig;
+}
+
+export interface ReloadEvent {
+  timestamp: string;
+  files: string[];
+  ok: boolean;
+  version: number;
+  hash: string;
+  error?: string;
+}
+
+export interface ConfigStatus {
+  version: number;
+  hash: string;
+  loadedAt: string;
+  watching: boolean;
+  reloads: ReloadEvent[];
+}
+
 export interface MessageContext {
   id: string;
   text: string;
   channel: string;
   sender?: string;
+  sessionId?: string;
+  history?: string[];
+  language?: string;
+  attachments?: MessageAttachment[];
+  capabilities?: ModelCapability[];
   metadata?: Record<string, any>;
   timestamp?: number;
 }
 
+export interface MessageAttachment {
+  type: 'image' | 'audio' | 'video' | 'file';
+  mimeType?: string;
+  tokens?: number;
+}
+
 export interface PluginContext {
   configPath?: string;
   logger: Logger;
@@ -133,14 +667,39 @@ export interface Logger {
   error(message: string, ...args: any[]): void;
 }
 
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'text' | 'json';
+
+/** Context attached to every line from a logger, such as the message id. */
+export type LogFields = Record<string, string | number | boolean | undefined>;
+
 export interface DecisionLog {
   timestamp: string;
   message_id: string;
   channel: string;
+  sender?: string;
+  text?: string;
   complexity: ComplexityLevel;
+  confidence: number;
+  runner_up_tier?: ComplexityLevel;
+  escalation?: TierEscalation;
+  language?: string;
+  estimated_tokens: number;
+  context_stepped_from?: ComplexityLevel;
+  required_capabilities?: ModelCapability[];
+  capability_stepped_from?: ComplexityLevel;
   scores: ModelScores;
   selected_model: string;
   selection_reason: string;
+  strategy: RoutingStrategy;
+  strategy_reason: string;
+  fallback_chain: string[];
+  session?: SessionContinuity;
+  budget?: BudgetConstraint;
+  timed_out?: boolean;
+  cached?: boolean;
+  fired_rules: string[];
+  override?: RoutingOverride;
   execution_time_ms: number;
   total_score: number;
   dimension_scores: DimensionScore;
@@ -0,0 +1,296 @@
+import { ComplexityLevel, DimensionsConfig, HttpSinkConfig, PluginConfig, TiersConfig } from './types';
+import { COMPLEXITY_LEVELS } from './constants';
+
+const STRATEGIES = ['cost-optimized', 'quality-first', 'balanced'];
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error'];
+const LOG_FORMATS = ['text', 'json'];
+const BUDGET_MODES = ['free-only', 'no-premium'];
+const REDACTION_KINDS = ['email', 'phone', 'token'];
+const REQUIRED_THRESHOLDS = [
+  'SIMPLE_MAX', 'COMPLEX_MIN', 'PREMIUM_MIN', 'REASONING_TRIGGER', 'CODING_TRIGGER', 'CREATIVE_TRIGGER',
+];
+const LANGUAGE_CODE = /^[a-z]{2,3}$/;
+const PLUGIN_KEYS = [
+  'enabled', 'strategy', 'models', 'thresholds', 'timeout_ms', 'timeout_tier', 'output_reserve_tokens',
+  'cache_decisions', 'cache_ttl_seconds', 'cache_max_entries', 'sticky_sessions', 'session_ttl_seconds',
+  'budgets', 'directives', 'watch_config', 'log_decisions', 'decision_log', 'sinks', 'log_level', 'log_format',
+  'channels',
+];
+
+/**
+ * Collects path-qualified errors (`tiers.CODING.fullPaid: required`) while
+ * walking a parsed config file.
+ */
+class SchemaChecker {
+  readonly errors: string[] = [];
+
+  fail(path: string, message: string): void {
+    this.errors.push(`${path}: ${message}`);
+  }
+
+  isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  object(path: string, value: unknown): value is Record<string, any> {
+    if (value === undefined) return this.missing(path);
+    if (this.isObject(value)) return true;
+    this.fail(path, 'must be an object');
+    return false;
+  }
+
+  string(path: string, value: unknown, optional: boolean = false): void {
+    if (value === undefined) {
+      if (!optional) this.missing(path);
+    } else if (typeof value !== 'string' || value.length === 0) {
+      this.fail(path, 'must be a non-empty string');
+    }
+  }
+
+  nullableString(path: string, value: unknown): void {
+    if (value !== null) this.string(path, value);
+  }
+
+  boolean(path: string, value: unknown): void {
+    if (value === undefined) this.missing(path);
+    else if (typeof value !== 'boolean') this.fail(path, 'must be true or false');
+  }
+
+  number(path: string, value: unknown, options: { min?: number; max?: number; optional?: boolean } = {}): void {
+    if (value === undefined) {
+      if (!options.optional) this.missing(path);
+    } else if (typeof value !== 'number' || Number.isNaN(value)) {
+      this.fail(path, 'must be a number');
+    } else if (options.min !== undefined && value < options.min) {
+      this.fail(path, `must be at least ${options.min}`);
+    } else if (options.max !== undefined && value > options.max) {
+      this.fail(path, `must be at most ${options.max}`);
+    }
+  }
+
+  oneOf(path: string, value: unknown, allowed: string[]): void {
+    if (value === undefined) this.missing(path);
+    else if (!allowed.includes(value as string)) this.fail(path, `must be one of ${allowed.join(', ')} (got ${JSON.stringify(value)})`);
+  }
+
+  stringArray(path: string, value: unknown, optional: boolean = false): value is string[] {
+    if (value === undefined) {
+      if (!optional) this.missing(path);
+      return false;
+    }
+    if (!Array.isArray(value)) {
+      this.fail(path, 'must be an array');
+      return false;
+    }
+    value.forEach((item, index) => this.string(`${path}[${index}]`, item));
+    return true;
+  }
+
+  knownKeys(path: string, value: Record<string, any>, keys: string[]): void {
+    Object.keys(value)
+      .filter(key => !keys.includes(key))
+      .forEach(key => this.fail(path ? `${path}.${key}` : key, 'unknown setting'));
+  }
+
+  private missing(path: string): false {
+    this.fail(path, 'required');
+    return false;
+  }
+}
+
+export class ConfigValidator {
+  validatePluginConfig(config: PluginConfig): string[] {
+    const check = new SchemaChecker();
+
+    check.knownKeys('', config, PLUGIN_KEYS);
+    check.boolean('enabled', config.enabled);
+    check.oneOf('strategy', config.strategy, STRATEGIES);
+    if (check.object('models', config.models)) {
+      check.stringArray('models.free', config.models.free);
+      check.stringArray('models.premium', config.models.premium);
+    }
+    if (check.object('thresholds', config.thresholds)) {
+      check.number('thresholds.simple_max_tokens', config.thresholds.simple_max_tokens, { min: 0 });
+      check.stringArray('thresholds.coding_keywords', config.thresholds.coding_keywords);
+      check.number('thresholds.premium_min_score', config.thresholds.premium_min_score, { min: 0 });
+    }
+    check.number('timeout_ms', config.timeout_ms, { min: 1 });
+    check.oneOf('timeout_tier', config.timeout_tier, COMPLEXITY_LEVELS);
+    check.number('output_reserve_tokens', config.output_reserve_tokens, { min: 0 });
+    check.boolean('cache_decisions', config.cache_decisions);
+    check.number('cache_ttl_seconds', config.cache_ttl_seconds, { min: 0 });
+    check.number('cache_max_entries', config.cache_max_entries, { min: 1 });
+    check.boolean('sticky_sessions', config.sticky_sessions);
+    check.number('session_ttl_seconds', config.session_ttl_seconds, { min: 0 });
+    check.boolean('watch_config', config.watch_config);
+    check.boolean('log_decisions', config.log_decisions);
+    check.oneOf('log_level', config.log_level, LOG_LEVELS);
+    check.oneOf('log_format', config.log_format, LOG_FORMATS);
+
+    if (check.object('decision_log', config.decision_log)) {
+      const log = config.decision_log;
+      check.string('decision_log.dir', log.dir, true);
+      check.boolean('decision_log.include_text', log.include_text);
+      check.number('decision_log.text_max_chars', log.text_max_chars, { min: 1 });
+      check.boolean('decision_log.include_sender', log.include_sender);
+      check.boolean('decision_log.hash_senders', log.hash_senders);
+      check.string('decision_log.hash_salt', log.hash_salt, true);
+      check.stringArray('decision_log.redact', log.redact);
+      (Array.isArray(log.redact) ? log.redact : []).forEach((kind, index) =>
+        check.oneOf(`decision_log.redact[${index}]`, kind, REDACTION_KINDS)
+      );
+      check.number('decision_log.max_archives', log.max_archives, { min: 0, optional: true });
+      check.number('decision_log.max_age_days', log.max_age_days, { min: 0, optional: true });
+      check.boolean('decision_log.compress_archives', log.compress_archives);
+    }
+
+    if (check.object('sinks', config.sinks)) {
+      const { prometheus, otlp, webhook } = config.sinks;
+      if (check.object('sinks.prometheus', prometheus)) {
+        check.boolean('sinks.prometheus.enabled', prometheus.enabled);
+        check.number('sinks.prometheus.port', prometheus.port, { min: 1, max: 65535 });
+        check.string('sinks.prometheus.host', prometheus.host);
+      }
+      if (check.object('sinks.otlp', otlp)) {
+        this.checkHttpSink(check, 'sinks.otlp', otlp, 'endpoint', otlp.endpoint);
+        check.string('sinks.otlp.service_name', otlp.service_name, true);
+      }
+      if (check.object('sinks.webhook', webhook)) {
+        this.checkHttpSink(check, 'sinks.webhook', webhook, 'url', webhook.url);
+      }
+    }
+
+    if (check.object('budgets', config.budgets)) {
+      const budgets = config.budgets;
+      check.boolean('budgets.enabled', budgets.enabled);
+      check.oneOf('budgets.on_exceeded', budgets.on_exceeded, BUDGET_MODES);
+      (['daily_usd', 'monthly_usd', 'channel_daily_usd', 'sender_daily_usd'] as const)
+        .forEach(key => check.number(`budgets.${key}`, budgets[key], { min: 0, optional: true }));
+    }
+
+    if (check.object('directives', config.directives)) {
+      const directives = config.directives;
+      check.boolean('directives.enabled', directives.enabled);
+      if (check.object('directives.models', directives.models)) {
+        Object.entries(directives.models).forEach(([alias, model]) => check.string(`directives.models.${alias}`, model));
+      }
+      if (check.stringArray('directives.tiers', directives.tiers)) {
+        directives.tiers.forEach((tier, index) => check.oneOf(`directives.tiers[${index}]`, tier, COMPLEXITY_LEVELS));
+      }
+      check.boolean('directives.allow_cheap', directives.allow_cheap);
+      check.stringArray('directives.senders', directives.senders, true);
+    }
+
+    if (check.object('channels', config.channels)) {
+      Object.entries(config.channels).forEach(([channel, settings]) => {
+        if (check.object(`channels.${channel}`, settings)) check.boolean(`channels.${channel}.enabled`, settings.enabled);
+      });
+    }
+
+    return check.errors;
+  }
+
+  validateDimensions(config: DimensionsConfig): string[] {
+    const check = new SchemaChecker();
+    if (!check.isObject(config)) return ['must be a JSON object'];
+
+    if (!Array.isArray(config.dimensions)) {
+      check.fail('dimensions', config.dimensions === undefined ? 'required' : 'must be an array');
+      return check.errors;
+    }
+
+    const seen = new Set<string>();
+    config.dimensions.forEach((dimension, index) => {
+      const path = `dimensions[${index}]`;
+      if (!check.object(path, dimension)) return;
+
+      check.string(`${path}.name`, dimension.name);
+      if (seen.has(dimension.name)) check.fail(`${path}.name`, `duplicate dimension "${dimension.name}"`);
+      seen.add(dimension.name);
+      check.number(`${path}.weight`, dimension.weight, { min: 0 });
+      check.number(`${path}.max`, dimension.max, { min: 0 });
+      check.stringArray(`${path}.patterns`, dimension.patterns);
+      if (dimension.patterns_by_lang !== undefined && check.object(`${path}.patterns_by_lang`, dimension.patterns_by_lang)) {
+        Object.entries(dimension.patterns_by_lang).forEach(([language, patterns]) => {
+          if (!LANGUAGE_CODE.test(language)) {
+            check.fail(`${path}.patterns_by_lang.${language}`, 'expected a lowercase ISO 639 language code such as "es"');
+          }
+          check.stringArray(`${path}.patterns_by_lang.${language}`, patterns);
+        });
+      }
+      check.string(`${path}.description`, dimension.description, true);
+    });
+
+    return check.errors;
+  }
+
+  validateTiers(config: TiersConfig): string[] {
+    const check = new SchemaChecker();
+    if (!check.isObject(config)) return ['must be a JSON object'];
+
+    if (check.object('tiers', config.tiers)) {
+      COMPLEXITY_LEVELS
+        .filter(level => !(level in config.tiers))
+        .forEach(level => check.fail(`tiers.${level}`, 'required'));
+
+      Object.entries(config.tiers).forEach(([name, tier]) => {
+        const path = `tiers.${name}`;
+        if (!COMPLEXITY_LEVELS.includes(name as ComplexityLevel)) {
+          check.fail(path, `unknown tier, expected one of ${COMPLEXITY_LEVELS.join(', ')}`);
+        }
+        if (!check.object(path, tier)) return;
+
+        check.string(`${path}.description`, tier.description);
+        check.nullableString(`${path}.free`, tier.free);
+        check.string(`${path}.paid`, tier.paid);
+        check.nullableString(`${path}.fullFree`, tier.fullFree);
+        check.string(`${path}.fullPaid`, tier.fullPaid);
+        if ((tier.free === null) !== (tier.fullFree === null)) {
+          check.fail(`${path}.free`, 'free and fullFree must both be set or both be null');
+        }
+        check.stringArray(`${path}.candidates`, tier.candidates, true);
+        check.stringArray(`${path}.fallbacks`, tier.fallbacks, true);
+      });
+    }
+
+    if (check.object('thresholds', config.thresholds)) {
+      const thresholds = config.thresholds as Record<string, unknown>;
+      REQUIRED_THRESHOLDS.forEach(key => check.number(`thresholds.${key}`, thresholds[key], { min: 0 }));
+      Object.entries(thresholds)
+        .filter(([key]) => !REQUIRED_THRESHOLDS.includes(key))
+        .forEach(([key, value]) => check.number(`thresholds.${key}`, value, { min: 0 }));
+
+      const { SIMPLE_MAX, COMPLEX_MIN, PREMIUM_MIN } = config.thresholds;
+      if (SIMPLE_MAX > COMPLEX_MIN || COMPLEX_MIN > PREMIUM_MIN) {
+        check.fail('thresholds', 'expected SIMPLE_MAX <= COMPLEX_MIN <= PREMIUM_MIN');
+      }
+    }
+
+    if (config.rules !== undefined && !Array.isArray(config.rules)) check.fail('rules', 'must be an array');
+    if (config.default_tier !== undefined) check.oneOf('default_tier', config.default_tier, COMPLEXITY_LEVELS);
+
+    if (config.escalation !== undefined && check.object('escalation', config.escalation)) {
+      const escalation = config.escalation;
+      check.boolean('escalation.enabled', escalation.enabled);
+      check.number('escalation.min_confidence', escalation.min_confidence, { min: 0, max: 1 });
+      check.stringArray('escalation.order', escalation.order, true);
+      (Array.isArray(escalation.order) ? escalation.order : []).forEach((tier, index) =>
+        check.oneOf(`escalation.order[${index}]`, tier, COMPLEXITY_LEVELS)
+      );
+    }
+
+    return check.errors;
+  }
+
+  private checkHttpSink(check: SchemaChecker, path: string, sink: HttpSinkConfig, urlKey: string, url: unknown): void {
+    check.boolean(`${path}.enabled`, sink.enabled);
+    check.string(`${path}.${urlKey}`, url, !sink.enabled);
+    if (typeof url === 'string' && !/^https?:\/\/\S+$/.test(url)) check.fail(`${path}.${urlKey}`, 'must be an http(s) URL');
+    if (sink.headers !== undefined && check.object(`${path}.headers`, sink.headers)) {
+      Object.entries(sink.headers).forEach(([name, value]) => check.string(`${path}.headers.${name}`, value));
+    }
+    check.number(`${path}.batch_size`, sink.batch_size, { min: 1, optional: true });
+    check.number(`${path}.flush_ms`, sink.flush_ms, { min: 1, optional: true });
+    check.number(`${path}.max_retries`, sink.max_retries, { min: 0, optional: true });
+  }
+}